@@ -17,6 +17,12 @@ export interface Config {
   // Image download URL (e.g. "https://downloads.openwrt.org")
   image_url: string
 
+  // Additional mirrors of image_url with the same directory layout (optional)
+  mirrors?: Array<{
+    name: string
+    url: string
+  }>
+
   // Insert snapshot versions (optional)
   show_snapshots?: boolean
 
@@ -30,10 +36,30 @@ export interface Config {
   // Enable/disable module management feature (optional)
   enable_module_management?: boolean
 
+  // Module source providers (optional): extra self-hosted GitLab/Gitea hosts and the
+  // download proxy of each provider, a URL prefix such as "https://ghproxy.example.com"
+  module_providers?: {
+    [provider in 'github' | 'gitlab' | 'gitea' | 'archive']?: {
+      hosts?: string[]
+      proxy?: string // Empty or missing: download directly (the host must allow CORS)
+    }
+  }
+
   // Versions that use apk v3 package index (packages.adb)
   apk_versions?: string[]
+
+  // usign public keys that sign release folders (contents of the key files,
+  // e.g. from the usign/ directory of the OpenWrt keyring)
+  release_keys?: Array<{
+    name: string
+    key: string
+  }>
+
+  // Let ?cfg.<key>=<value> query parameters override config.json (optional)
+  allow_query_overrides?: boolean
 }
 
+// Compiled defaults; config.json in the site root is merged over them at startup
 export const config: Config = {
   // Brand name
   brand_name: "ImmortalWrt",
@@ -53,6 +79,9 @@ export const config: Config = {
   // Image download URL (e.g. "https://downloads.openwrt.org")
   image_url: "https://downloads.immortalwrt.org",
 
+  // Additional mirrors of image_url (optional), e.g. [{ name: "Mirror", url: "https://mirror.example.com/immortalwrt" }]
+  mirrors: [],
+
   // Insert snapshot versions (optional)
   show_snapshots: true,
 
@@ -65,6 +94,16 @@ export const config: Config = {
 
   // Enable/disable module management feature (optional)
   enable_module_management: false,
+
+  // Module source providers (optional), e.g. { gitea: { hosts: ["git.example.com"], proxy: "" } }
+  module_providers: {
+    github: { proxy: "https://ghproxy.imciel.com" }
+  },
+
   // Treat these versions as using apk v3 index
-  apk_versions: ["SNAPSHOT"]
+  apk_versions: ["SNAPSHOT"],
+
+  // usign keys trusted for sha256sums.sig, e.g. the keys of the download host's release builds
+  // (usign/ in the OpenWrt keyring, or the fork's own). Empty: signatures show as not verified.
+  release_keys: []
 }
@@ -1,18 +1,29 @@
 import { createApp } from 'vue'
 import { createPinia } from 'pinia'
 
-import App from './App.vue'
-import router from './router'
 import vuetify from './plugins/vuetify'
 import { config } from './config'
+import { siteConfig } from './services/siteConfig'
 
-// Set dynamic page title
-document.title = `${config.brand_name} Firmware Selector`
+async function bootstrap() {
+  // Services read the config when they are created, so it must be final before the app is imported
+  await siteConfig.load(`${import.meta.env.BASE_URL}config.json`, window.location.search)
 
-const app = createApp(App)
+  const [{ default: App }, { default: router }] = await Promise.all([
+    import('./App.vue'),
+    import('./router')
+  ])
 
-app.use(createPinia())
-app.use(router)
-app.use(vuetify)
+  // Set dynamic page title
+  document.title = `${config.brand_name} Firmware Selector`
 
-app.mount('#app')
+  const app = createApp(App)
+
+  app.use(createPinia())
+  app.use(router)
+  app.use(vuetify)
+
+  app.mount('#app')
+}
+
+bootstrap()
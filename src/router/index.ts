@@ -1,4 +1,7 @@
 import { createRouter, createWebHistory } from 'vue-router'
+import { deepLink } from '@/services/deepLink'
+
+const HomeView = () => import('../views/HomeView.vue')
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -6,7 +9,22 @@ const router = createRouter({
     {
       path: '/',
       name: 'home',
-      component: () => import('../views/HomeView.vue'),
+      component: HomeView,
+      // Links of the previous selector use ?version=&target=&id=
+      beforeEnter: (to) => {
+        const legacy = deepLink.fromLegacyQuery(to.query)
+        return legacy ? { ...deepLink.toLocation(legacy.state, legacy.query), replace: true } : true
+      }
+    },
+    {
+      path: '/:version',
+      name: 'version',
+      component: HomeView,
+    },
+    {
+      path: '/:version/:target/:subtarget/:profile',
+      name: 'device',
+      component: HomeView,
     },
   ],
 })
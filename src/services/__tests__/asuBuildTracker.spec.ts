@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import { AsuBuildTracker, AsuTrackerError, type TrackerUpdate } from '../asuBuildTracker'
+
+type MockReply =
+  | { status: number; body?: unknown; headers?: Record<string, string> }
+  | Error
+
+// Minimal ASU server: answers GET /api/v1/build/{hash} from a scripted list of replies
+function createMockAsu(replies: MockReply[]) {
+  const requests: string[] = []
+  const fetch = vi.fn(async (input: RequestInfo | URL) => {
+    requests.push(String(input))
+    const reply = replies.shift()
+    if (!reply) throw new Error('No more mock replies')
+    if (reply instanceof Error) throw reply
+
+    const body = reply.body === undefined ? '' : typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body)
+    return new Response(body, { status: reply.status, headers: reply.headers })
+  })
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests }
+}
+
+function createTracker(replies: MockReply[], options: { maxRetries?: number } = {}) {
+  const server = createMockAsu(replies)
+  const delays: number[] = []
+  const tracker = new AsuBuildTracker({
+    baseUrl: 'https://asu.example',
+    fetch: server.fetch,
+    sleep: async (ms, signal) => {
+      signal?.throwIfAborted()
+      delays.push(ms)
+      vi.setSystemTime(Date.now() + ms)
+    },
+    initialInterval: 1000,
+    maxInterval: 8000,
+    backoffFactor: 2,
+    maxRetries: options.maxRetries ?? 3
+  })
+  return { tracker, server, delays }
+}
+
+describe('AsuBuildTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('follows a build from the queue to success', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    const { tracker, server } = createTracker([
+      { status: 202, body: { status: 'requested', queue_position: 4 } },
+      { status: 202, body: { status: 'requested', queue_position: 2 } },
+      { status: 202, body: { status: 'building', imagebuilder_status: 'building_image' } },
+      { status: 200, body: { status: 'success', request_hash: 'abc', images: [{ name: 'a.bin', sha256: '00', type: 'sysupgrade' }] } }
+    ])
+
+    const updates: TrackerUpdate[] = []
+    const result = await tracker.track('abc', { onUpdate: update => updates.push(update) })
+
+    expect(server.requests[0]).toBe('https://asu.example/api/v1/build/abc')
+    expect(updates.map(update => update.state)).toEqual(['requested', 'requested', 'building', 'success'])
+    expect(updates[0].etaSeconds).toBeUndefined()
+    // Two positions in one second, two positions left
+    expect(updates[1].etaSeconds).toBe(1)
+    expect(updates[2].progress).toBe(75)
+    expect(result.state).toBe('success')
+    expect(result.response.images).toHaveLength(1)
+  })
+
+  it('backs off while the build does not move and resets when it does', async () => {
+    const { tracker, delays } = createTracker([
+      { status: 202, body: { queue_position: 3 } },
+      { status: 202, body: { queue_position: 3 } },
+      { status: 202, body: { queue_position: 3 } },
+      { status: 202, body: { queue_position: 3 } },
+      { status: 202, body: { queue_position: 3 } },
+      { status: 202, body: { queue_position: 1 } },
+      { status: 200, body: {} }
+    ])
+
+    await tracker.track('abc')
+
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 8000, 1000])
+  })
+
+  it('retries network errors and gateway errors with exponential delays', async () => {
+    const { tracker, delays } = createTracker([
+      new TypeError('Failed to fetch'),
+      { status: 503, body: 'Service Unavailable' },
+      { status: 500, body: '<html>Internal Server Error</html>' },
+      { status: 200, body: { status: 'success' } }
+    ])
+
+    const result = await tracker.track('abc')
+
+    expect(result.state).toBe('success')
+    expect(delays).toEqual([1000, 2000, 4000])
+  })
+
+  it('honours Retry-After on rate limiting', async () => {
+    const { tracker, delays } = createTracker([
+      { status: 429, body: { detail: 'Too Many Requests' }, headers: { 'Retry-After': '3' } },
+      { status: 200, body: {} }
+    ])
+
+    await tracker.track('abc')
+
+    expect(delays).toEqual([3000])
+  })
+
+  it('gives up after too many consecutive transient failures', async () => {
+    const { tracker, server } = createTracker([
+      new TypeError('Failed to fetch'),
+      new TypeError('Failed to fetch'),
+      new TypeError('Failed to fetch'),
+      new TypeError('Failed to fetch')
+    ], { maxRetries: 3 })
+
+    await expect(tracker.track('abc')).rejects.toBeInstanceOf(AsuTrackerError)
+    expect(server.requests).toHaveLength(4)
+  })
+
+  it.each([
+    [400, { detail: 'Unsupported profile' }, 'Unsupported profile'],
+    [404, {}, '构建请求不存在或已过期 (HTTP 404)'],
+    [422, { detail: 'Impossible package selection' }, 'Impossible package selection'],
+    [500, { detail: 'Error: Image building failed', stderr: 'collect2: error' }, 'Error: Image building failed']
+  ])('treats HTTP %i as a failed build', async (status, body, message) => {
+    const { tracker } = createTracker([{ status, body }])
+
+    const updates: TrackerUpdate[] = []
+    const error = await tracker.track('abc', { onUpdate: update => updates.push(update) }).catch(err => err)
+
+    expect(error).toBeInstanceOf(AsuTrackerError)
+    expect(error.message).toBe(message)
+    expect(error.httpStatus).toBe(status)
+    expect(updates).toHaveLength(1)
+    expect(updates[0].state).toBe('failure')
+  })
+
+  it('keeps the stderr of a failed build', async () => {
+    const { tracker } = createTracker([
+      { status: 500, body: { detail: 'Error: Image building failed', stderr: 'collect2: error' } }
+    ])
+
+    const error = await tracker.track('abc').catch(err => err)
+
+    expect(error.response.stderr).toBe('collect2: error')
+  })
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController()
+    const { tracker, server } = createTracker([
+      { status: 202, body: { queue_position: 5 } },
+      { status: 202, body: { queue_position: 4 } }
+    ])
+
+    const promise = tracker.track('abc', {
+      signal: controller.signal,
+      onUpdate: () => controller.abort()
+    })
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    expect(server.requests).toHaveLength(1)
+  })
+})
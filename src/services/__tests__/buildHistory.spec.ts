@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { BuildHistoryService } from '../buildHistory'
+import type { BuildRecord } from '@/types/build'
+
+function record(index: number, extra: Partial<BuildRecord> = {}): BuildRecord {
+  const at = new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString()
+  return {
+    id: `build_${index}`,
+    request: { target: 'ath79/generic', profile: 'tplink_archer-c7-v5', packages: [], version: '24.10.0' },
+    status: 'success',
+    transitions: [{ status: 'success', at }],
+    deviceTitle: 'TP-Link Archer C7 v5',
+    createdAt: at,
+    updatedAt: at,
+    ...extra
+  }
+}
+
+describe('BuildHistoryService', () => {
+  const history = new BuildHistoryService()
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the newest records and the end of long logs', () => {
+    const log = `${'x'.repeat(64 * 1024)}\nERROR: cannot find dependency`
+    history.save([record(0, { stderr: log }), ...Array.from({ length: 60 }, (_, index) => record(index + 1))])
+
+    const loaded = history.load()
+    expect(loaded).toHaveLength(50)
+    expect(loaded[0].id).toBe('build_0')
+    expect(loaded[0].stderr).toHaveLength(64 * 1024)
+    expect(loaded[0].stderr!.endsWith('ERROR: cannot find dependency')).toBe(true)
+  })
+
+  it('drops logs when the storage quota is exceeded', () => {
+    const setItem = Storage.prototype.setItem
+    vi.spyOn(Storage.prototype, 'setItem')
+      .mockImplementationOnce(() => { throw new DOMException('Quota exceeded', 'QuotaExceededError') })
+      .mockImplementation(function (this: Storage, key: string, value: string) { setItem.call(this, key, value) })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    history.save([record(0, { stdout: 'building...' })])
+    const [loaded] = history.load()
+    expect(loaded.id).toBe('build_0')
+    expect(loaded).not.toHaveProperty('stdout')
+  })
+
+  it('ignores corrupt history', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    localStorage.setItem('openwrt-build-history', '{')
+    expect(history.load()).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { BuildLogService } from '../buildLog'
+
+const service = new BuildLogService()
+
+describe('build status catalog', () => {
+  it('normalizes the status spellings ASU uses', () => {
+    expect(service.normalizeStatus('tr-building-image')).toBe('building_image')
+    expect(service.normalizeStatus(' Building-Image ')).toBe('building_image')
+    expect(service.normalizeStatus('building_image')).toBe('building_image')
+  })
+
+  it('describes known statuses with progress and translation key', () => {
+    expect(service.getStatusInfo('tr-validate-manifest')).toEqual({
+      id: 'validate_manifest',
+      label: '正在校验软件包清单',
+      translationKey: 'tr-validate-manifest',
+      progress: 45,
+      known: true
+    })
+    expect(service.getStatusInfo('done').progress).toBe(100)
+  })
+
+  it('keeps the progress of the previous step for unknown statuses', () => {
+    const info = service.getStatusInfo('compress_rootfs', 'building_image')
+    expect(info).toMatchObject({ id: 'compress_rootfs', label: 'compress rootfs', progress: 75, known: false })
+    expect(service.getStatusInfo('compress_rootfs').progress).toBe(0)
+  })
+})
+
+describe('build log parsing', () => {
+  const stdout = [
+    'Building images for mediatek - glinet_gl-mt6000',
+    'Packages: base-files luci',
+    'Downloading https://downloads.openwrt.org/releases/packages.adb',
+    'Signature check passed.',
+    'Installing luci (git-24.0)',
+    'Collected errors:',
+    ' * opkg_install_cmd: Cannot install package luci-app-foo.',
+    'Configuring base-files.',
+    ''
+  ].join('\n')
+
+  it('splits stdout into stages at the imagebuilder markers', () => {
+    const sections = service.parseLog(stdout, '', ['make', 'image', 'PROFILE=glinet_gl-mt6000'])
+
+    expect(sections.map(section => section.type)).toEqual(['command', 'image', 'download', 'install'])
+    expect(sections[0].lines[0].text).toBe('make image PROFILE=glinet_gl-mt6000')
+    expect(sections[1].lines.map(line => line.number)).toEqual([1, 2])
+    expect(sections[2]).toMatchObject({ title: '下载软件包', source: 'stdout', hasError: false, firstErrorIndex: -1 })
+  })
+
+  it('points at the first error line of the failing stage', () => {
+    const sections = service.parseLog(stdout)
+    const failing = service.findFailingSection(sections)
+
+    expect(failing?.type).toBe('install')
+    expect(failing?.firstErrorIndex).toBe(2)
+    expect(failing?.lines[failing.firstErrorIndex]).toMatchObject({ number: 7, isError: true })
+  })
+
+  it('falls back to stderr when stdout shows no error', () => {
+    const sections = service.parseLog('Building images\n', 'make: *** [image] Error 2\n')
+    const failing = service.findFailingSection(sections)
+
+    expect(failing).toMatchObject({ type: 'stderr', source: 'stderr', firstErrorIndex: 0 })
+  })
+
+  it('drops empty sections and ignores zero error counters', () => {
+    expect(service.parseLog('\n', '  \n')).toEqual([])
+    expect(service.isErrorLine('Finished with 0 errors')).toBe(false)
+    expect(service.isErrorLine('No space left on device')).toBe(true)
+  })
+})
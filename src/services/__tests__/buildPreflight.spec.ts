@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+
+import { BuildPreflightService, type PreflightInput } from '../buildPreflight'
+import { dependencyResolver } from '../dependencyResolver'
+import type { DeviceProfile } from '../api'
+import type { OpenWrtPackage } from '@/types/package'
+
+function pkg(name: string, extra: Partial<OpenWrtPackage> = {}): OpenWrtPackage {
+  return { name, version: '1.0-r1', section: 'base', architecture: 'mipsel_24kc', filename: `${name}.ipk`, size: 0, sha256sum: '', description: '', ...extra }
+}
+
+const profile = {
+  id: 'xiaomi_mi-router-4a-gigabit',
+  target: 'ramips/mt7621',
+  arch_packages: 'mipsel_24kc',
+  device_packages: [],
+  default_packages: [],
+  linux_kernel: { version: '6.6.73', release: '1', vermagic: 'a1b2c3' }
+} as unknown as DeviceProfile
+
+function input(packages: string[], available: OpenWrtPackage[], extra: Partial<PreflightInput> = {}): PreflightInput {
+  return {
+    packages,
+    availablePackages: available,
+    profile,
+    resolution: dependencyResolver.resolve(packages.map(spec => ({ spec, reason: 'requested' })), available),
+    failedFeeds: [],
+    ...extra
+  }
+}
+
+describe('BuildPreflightService', () => {
+  const preflight = new BuildPreflightService()
+
+  it('blocks builds with missing packages, wrong architectures and foreign kmods', () => {
+    const report = preflight.check(input(['luci', 'htop', 'kmod-wireguard', 'adblock'], [
+      pkg('luci'),
+      pkg('htop', { architecture: 'aarch64_cortex-a53' }),
+      pkg('kmod-wireguard', { dependencies: [{ name: 'kernel', operator: '=', version: '6.6.73-1-ffffff' }] }),
+      pkg('kernel', { version: '6.6.73-1-ffffff' })
+    ]))
+
+    expect(report.issues.map(issue => [issue.type, issue.package])).toEqual([
+      ['missing', 'adblock'],
+      ['architecture', 'htop'],
+      ['vermagic', 'kmod-wireguard']
+    ])
+    expect(report.canBuild).toBe(false)
+  })
+
+  it('only warns about missing packages when a feed failed to load', () => {
+    const report = preflight.check(input(['luci', 'adblock'], [pkg('luci')], { failedFeeds: ['packages'] }))
+
+    expect(report.errorCount).toBe(0)
+    expect(report.warningCount).toBe(2)
+    expect(report.canBuild).toBe(true)
+  })
+
+  it('reports unsatisfied dependencies and conflicts from the resolution', () => {
+    const report = preflight.check(input(['luci-app-sqm', 'dnsmasq', 'dnsmasq-full'], [
+      pkg('luci-app-sqm', { dependencies: [{ name: 'sqm-scripts', operator: '>=', version: '2.0' }] }),
+      pkg('sqm-scripts', { version: '1.6.0-r1' }),
+      pkg('dnsmasq'),
+      pkg('dnsmasq-full', { conflicts: [{ name: 'dnsmasq' }] })
+    ]))
+
+    expect(report.issues.map(issue => issue.type)).toEqual(['dependency', 'conflict'])
+    expect(report.issues[0].message).toContain('1.6.0-r1')
+    expect(report.canBuild).toBe(false)
+  })
+
+  it('lets builds through without a package index', () => {
+    const report = preflight.check(input(['luci'], [], { resolution: null }))
+
+    expect(report.issues).toEqual([expect.objectContaining({ type: 'index-unavailable', severity: 'warning' })])
+    expect(report.canBuild).toBe(true)
+  })
+})
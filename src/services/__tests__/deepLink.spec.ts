@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+
+import { DeepLinkService } from '../deepLink'
+
+describe('DeepLinkService', () => {
+  const service = new DeepLinkService()
+
+  it('round-trips device routes and keeps unrelated query parameters', () => {
+    const state = { version: '24.10.0', target: 'ath79/generic', profile: 'tplink_archer-c7-v2', imageType: 'sysupgrade' }
+    const location = service.toLocation(state, { config: 'abc', image: 'factory' })
+
+    expect(location).toEqual({
+      name: 'device',
+      params: { version: '24.10.0', target: 'ath79', subtarget: 'generic', profile: 'tplink_archer-c7-v2' },
+      query: { config: 'abc', image: 'sysupgrade' }
+    })
+    expect(service.fromRoute(location.params as Record<string, string>, { image: 'sysupgrade' })).toEqual(state)
+    expect(service.toLocation({ ...state, profile: '', imageType: '' })).toEqual({
+      name: 'version',
+      params: { version: '24.10.0' },
+      query: {}
+    })
+  })
+
+  it('converts links of the previous selector', () => {
+    const legacy = service.fromLegacyQuery({ version: '23.05.5', target: 'ath79/generic', id: 'tplink_archer-c7-v2', lang: 'de' })
+
+    expect(legacy?.state).toEqual({ version: '23.05.5', target: 'ath79/generic', profile: 'tplink_archer-c7-v2', imageType: '' })
+    expect(legacy?.query).toEqual({ lang: 'de' })
+    expect(service.fromLegacyQuery({ config: 'abc' })).toBeNull()
+  })
+})
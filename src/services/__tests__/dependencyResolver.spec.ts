@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+
+import { DependencyResolverService, type ResolutionRequest } from '../dependencyResolver'
+import type { OpenWrtPackage } from '@/types/package'
+
+function pkg(name: string, version: string, extra: Partial<OpenWrtPackage> = {}): OpenWrtPackage {
+  return { name, version, section: 'base', architecture: 'all', filename: `${name}.ipk`, size: 0, sha256sum: '', description: '', ...extra }
+}
+
+const request = (spec: string, reason: ResolutionRequest['reason'] = 'requested'): ResolutionRequest => ({ spec, reason })
+
+describe('DependencyResolverService', () => {
+  const resolver = new DependencyResolverService()
+
+  it('compares versions and checks operators', () => {
+    expect(resolver.compareVersions('1.10', '1.9')).toBeGreaterThan(0)
+    expect(resolver.compareVersions('1:0.9', '2.0')).toBeGreaterThan(0)
+    expect(resolver.compareVersions('1.0_rc1', '1.0')).toBeLessThan(0)
+    expect(resolver.compareVersions('2024.01.04~7c84ef0c-r1', '2024.01.04-r1')).toBeLessThan(0)
+
+    const check = (spec: string, version: string) => resolver.satisfies(version, resolver.parseConstraint(spec)!.constraint)
+    expect(check('libubox (>= 2024.01)', '2024.03.29-r1')).toBe(true)
+    expect(check('libubox (<< 2024.01)', '2024.03.29-r1')).toBe(false)
+    expect(check('libubox>=2024.01', '2023.05.23-r1')).toBe(false)
+    expect(check('libubox=2024.03.29-r1', '2024.03.29-r1')).toBe(true)
+    expect(check('libubox~2024.03', '2024.03.29-r1')).toBe(true)
+    expect(check('libubox', '1')).toBe(true)
+  })
+
+  it('parses apk conflicts and opkg alternatives', () => {
+    expect(resolver.parseConstraint('!dnsmasq')).toEqual({ constraint: { name: 'dnsmasq' }, conflict: true })
+    expect(resolver.parseConstraint('libustream-mbedtls | libustream-openssl')?.constraint.name).toBe('libustream-mbedtls')
+    expect(resolver.parseConstraintList('libc, libubox (>= 2024.01)')).toEqual([
+      { name: 'libc' },
+      { name: 'libubox', operator: '>=', version: '2024.01' }
+    ])
+  })
+
+  it('reports conflicts between selected packages', () => {
+    const result = resolver.resolve([request('dnsmasq', 'default'), request('dnsmasq-full')], [
+      pkg('dnsmasq', '2.90-r3'),
+      pkg('dnsmasq-full', '2.90-r3', { conflicts: [{ name: 'dnsmasq' }] })
+    ])
+
+    expect(result.conflicts).toEqual([{ package: 'dnsmasq-full', conflictsWith: 'dnsmasq', constraint: 'dnsmasq' }])
+    expect(result.isValid).toBe(false)
+  })
+
+  it('replaces a default package with one that provides and replaces it', () => {
+    const packages = [
+      pkg('dnsmasq', '2.90-r3'),
+      pkg('dnsmasq-full', '2.90-r3', {
+        provides: [{ name: 'dnsmasq' }],
+        replaces: [{ name: 'dnsmasq' }],
+        conflicts: [{ name: 'dnsmasq' }]
+      }),
+      pkg('odhcpd', '2024.05.08-r1', { dependencies: [{ name: 'dnsmasq' }] })
+    ]
+    const result = resolver.resolve([request('dnsmasq', 'default'), request('odhcpd', 'default'), request('dnsmasq-full')], packages)
+
+    expect(result.install).toEqual(['dnsmasq-full', 'odhcpd'])
+    expect(result.rejected).toEqual([expect.objectContaining({ name: 'dnsmasq', type: 'replaced', by: 'dnsmasq-full' })])
+    expect(result.isValid).toBe(true)
+  })
+
+  it('picks a provider for virtual packages', () => {
+    const packages = [
+      pkg('uclient-fetch', '2024.10.22-r1', { dependencies: [{ name: 'libustream' }] }),
+      pkg('libustream-mbedtls', '2024.07.28-r1', { provides: [{ name: 'libustream' }], providerPriority: 10 }),
+      pkg('libustream-openssl', '2024.07.28-r1', { provides: [{ name: 'libustream' }] })
+    ]
+
+    const byPriority = resolver.resolve([request('uclient-fetch')], packages)
+    expect(byPriority.install).toEqual(['libustream-mbedtls', 'uclient-fetch'])
+    expect(byPriority.resolved.find(item => item.name === 'libustream-mbedtls')?.via).toBe('libustream')
+
+    const byRequest = resolver.resolve([request('libustream-openssl'), request('uclient-fetch')], packages)
+    expect(byRequest.install).toEqual(['libustream-openssl', 'uclient-fetch'])
+  })
+
+  it('explains removed, reinstated and missing packages', () => {
+    const packages = [
+      pkg('ppp', '2.5.0-r1'),
+      pkg('ppp-mod-pppoe', '2.5.0-r1', { dependencies: [{ name: 'ppp' }] }),
+      pkg('wpad-basic', '2024.03-r1'),
+      pkg('luci-proto-wireguard', '1', { dependencies: [{ name: 'wireguard-tools' }, { name: 'luci-base', operator: '>=', version: '25.0' }] }),
+      pkg('luci-base', '24.10.1')
+    ]
+    const result = resolver.resolve([
+      request('ppp', 'default'),
+      request('wpad-basic', 'default'),
+      request('-ppp'),
+      request('-wpad-basic'),
+      request('ppp-mod-pppoe'),
+      request('luci-proto-wireguard')
+    ], packages)
+
+    expect(result.rejected).toEqual([expect.objectContaining({ name: 'wpad-basic', type: 'removed' })])
+    expect(result.reinstated).toEqual(['ppp'])
+    expect(result.resolved.find(item => item.name === 'ppp')?.reasons).toEqual([
+      { type: 'dependency', from: 'ppp-mod-pppoe', constraint: 'ppp' }
+    ])
+    expect(result.missing).toEqual([
+      { name: 'wireguard-tools', constraint: 'wireguard-tools', requiredBy: 'luci-proto-wireguard', availableVersions: [] },
+      { name: 'luci-base', constraint: 'luci-base>=25.0', requiredBy: 'luci-proto-wireguard', availableVersions: ['24.10.1'] }
+    ])
+    expect(result.isValid).toBe(false)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+
+import { DeviceSearchService } from '../deviceSearch'
+import type { ProcessedDevice } from '@/stores/firmware'
+import type { DeviceProfile } from '../api'
+
+function devices(id: string, target: string, titles: { vendor: string; model: string; variant?: string }[], imageTypes: string[]): ProcessedDevice[] {
+  const profile = {
+    id,
+    target,
+    titles,
+    images: imageTypes.map(type => ({ name: `${id}-${type}.bin`, type }))
+  } as DeviceProfile
+  return titles.map(title => ({
+    id,
+    target,
+    title: [title.vendor, title.model, title.variant].filter(Boolean).join(' '),
+    profile
+  }))
+}
+
+const index = new DeviceSearchService().buildIndex([
+  ...devices('tplink_archer-c7-v2', 'ath79/generic', [{ vendor: 'TP-Link', model: 'Archer C7', variant: 'v2' }], ['factory', 'sysupgrade']),
+  ...devices('tplink_archer-c6-v2', 'ath79/generic', [{ vendor: 'TP-Link', model: 'Archer C6', variant: 'v2' }], ['factory', 'sysupgrade']),
+  ...devices('glinet_gl-mt6000', 'mediatek/filogic', [{ vendor: 'GL.iNet', model: 'GL-MT6000' }], ['sysupgrade']),
+  ...devices('linksys_e8450-ubi', 'mediatek/mt7622', [
+    { vendor: 'Linksys', model: 'E8450', variant: '(UBI)' },
+    { vendor: 'Belkin', model: 'RT3200', variant: '(UBI)' }
+  ], ['initramfs-recovery', 'sysupgrade'])
+])
+
+const noFilters = { vendors: [], targets: [], imageTypes: [] }
+
+describe('DeviceSearchService', () => {
+  const service = new DeviceSearchService()
+
+  it('ranks exact words first and tolerates typos and missing separators', () => {
+    expect(service.search(index, 'archer c7', noFilters).map(result => result.device.id)).toEqual(['tplink_archer-c7-v2'])
+    expect(service.search(index, 'archr c7', noFilters)[0].device.id).toBe('tplink_archer-c7-v2')
+    expect(service.search(index, 'tplink archerc6', noFilters)[0].device.id).toBe('tplink_archer-c6-v2')
+  })
+
+  it('finds profiles by id and alternative titles once per profile', () => {
+    expect(service.search(index, 'glinet_gl-mt6000', noFilters)[0].device.title).toBe('GL.iNet GL-MT6000')
+
+    const results = service.search(index, 'rt3200', noFilters)
+    expect(results).toHaveLength(1)
+    expect(results[0].device.title).toBe('Belkin RT3200 (UBI)')
+
+    const byId = service.search(index, 'e8450', noFilters)
+    expect(byId).toHaveLength(1)
+    expect(byId[0].device.title).toBe('Linksys E8450 (UBI)')
+  })
+
+  it('filters and counts facets', () => {
+    const filters = { vendors: [], targets: [], imageTypes: ['initramfs'] }
+    expect(service.search(index, '', filters).map(result => result.device.id)).toEqual(['linksys_e8450-ubi'])
+
+    const facets = service.getFacets(index, '', { ...noFilters, vendors: ['TP-Link'] })
+    expect(facets.targets).toEqual([{ value: 'ath79/generic', count: 2 }])
+    expect(facets.vendors.map(facet => facet.value)).toEqual(['Belkin', 'GL.iNet', 'Linksys', 'TP-Link'])
+    expect(facets.imageTypes).toEqual([{ value: 'factory', count: 2 }, { value: 'sysupgrade', count: 2 }])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { FeedCacheService, type FeedCacheData, type FeedCacheMeta } from '../feedCache'
+import type { IndexedDbStore } from '../indexedDb'
+
+const MB = 1024 * 1024
+
+// In-memory stand-in for the IndexedDB object store
+class MemoryStore<T extends { url: string }> {
+  items = new Map<string, T>()
+  isAvailable() { return true }
+  async get(key: string) { return this.items.get(key) }
+  async getAll() { return [...this.items.values()] }
+  async getAllKeys() { return [...this.items.keys()] }
+  async put(value: T) { this.items.set(value.url, structuredClone(value)) }
+  async delete(key: string) { this.items.delete(key) }
+  async clear() { this.items.clear() }
+}
+
+function feed(url: string, size: number) {
+  return { url, feedName: 'base', packages: [], etag: `"${url}"`, size }
+}
+
+describe('FeedCacheService', () => {
+  let store: MemoryStore<FeedCacheData>
+  let meta: MemoryStore<FeedCacheMeta>
+  let cache: FeedCacheService
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    store = new MemoryStore<FeedCacheData>()
+    meta = new MemoryStore<FeedCacheMeta>()
+    cache = new FeedCacheService(
+      store as unknown as IndexedDbStore<FeedCacheData>,
+      meta as unknown as IndexedDbStore<FeedCacheMeta>
+    )
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps validators and refreshes timestamps on revalidation', async () => {
+    await cache.put(feed('https://mirror/base/Packages', MB))
+    vi.advanceTimersByTime(60_000)
+    await cache.touch('https://mirror/base/Packages')
+
+    const entry = await cache.get('https://mirror/base/Packages')
+    expect(entry?.etag).toBe('"https://mirror/base/Packages"')
+    expect(entry?.storedAt).toBe(Date.now())
+    expect(await cache.get('https://mirror/luci/Packages')).toBeNull()
+  })
+
+  it('updates only metadata on hits, revalidations and stats', async () => {
+    await cache.put(feed('a', MB))
+    const put = vi.spyOn(store, 'put')
+    const getAll = vi.spyOn(store, 'getAll')
+
+    await cache.get('a')
+    await cache.touch('a')
+    await cache.getStats()
+
+    expect(put).not.toHaveBeenCalled()
+    expect(getAll).not.toHaveBeenCalled()
+    expect(store.items.get('a')).not.toHaveProperty('lastAccessed')
+  })
+
+  it('drops feeds whose metadata is missing', async () => {
+    await cache.put(feed('a', MB))
+    await store.put({ url: 'orphan', feedName: 'base', packages: [] })
+    meta.items.delete('a')
+
+    expect(await cache.get('a')).toBeNull()
+    await cache.put(feed('b', MB))
+    expect([...store.items.keys()]).toEqual(['b'])
+  })
+
+  it('evicts the least recently used feeds over the size budget', async () => {
+    await cache.put(feed('a', 20 * MB))
+    vi.advanceTimersByTime(1000)
+    await cache.put(feed('b', 20 * MB))
+    vi.advanceTimersByTime(1000)
+    await cache.get('a') // a is now more recent than b
+    vi.advanceTimersByTime(1000)
+    await cache.put(feed('c', 20 * MB))
+
+    expect([...store.items.keys()].sort()).toEqual(['a', 'c'])
+    expect([...meta.items.keys()].sort()).toEqual(['a', 'c'])
+    expect(await cache.getStats()).toEqual({ entries: 2, totalSize: 40 * MB, maxSize: 48 * MB })
+  })
+
+  it('skips indexes larger than the whole budget', async () => {
+    await cache.put(feed('huge', 64 * MB))
+    expect(store.items.size).toBe(0)
+
+    await cache.put(feed('a', MB))
+    await cache.clear()
+    expect((await cache.getStats()).entries).toBe(0)
+  })
+})
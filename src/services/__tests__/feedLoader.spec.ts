@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { FeedLoaderService } from '../feedLoader'
+import { packageManager } from '../packageManager'
+import type { FeedWorkerRequest, FeedWorkerResponse } from '@/types/feedWorker'
+
+// Worker stand-in that records requests and lets the test answer them
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  requests: FeedWorkerRequest[] = []
+  onmessage: ((event: MessageEvent<FeedWorkerResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  terminate = vi.fn()
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(message: FeedWorkerRequest) {
+    this.requests.push(message)
+  }
+
+  reply(message: FeedWorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<FeedWorkerResponse>)
+  }
+}
+
+const URL_BASE = 'https://downloads.openwrt.org/releases/24.10.0/packages/mipsel_24kc/base/Packages.gz'
+
+describe('FeedLoaderService', () => {
+  beforeEach(() => {
+    FakeWorker.instances = []
+    vi.stubGlobal('Worker', FakeWorker)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('reports progress and resolves with the worker result', async () => {
+    const loader = new FeedLoaderService()
+    const onProgress = vi.fn()
+    const promise = loader.load(URL_BASE, 'base', { etag: '"1"' }, { onProgress })
+
+    const worker = FakeWorker.instances[0]
+    const request = worker.requests[0]
+    expect(request).toMatchObject({ type: 'load', id: 1, feedName: 'base', cached: { etag: '"1"' } })
+
+    worker.reply({ type: 'progress', id: 1, progress: { stage: 'download', loaded: 10, total: 100 } })
+    worker.reply({ type: 'result', id: 1, result: { notModified: true, size: 0 } })
+
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'download', loaded: 10, total: 100 })
+    await expect(promise).resolves.toEqual({ notModified: true, size: 0 })
+  })
+
+  it('cancels the worker load when aborted and ignores its late answer', async () => {
+    const loader = new FeedLoaderService()
+    const controller = new AbortController()
+    const promise = loader.load(URL_BASE, 'base', undefined, { signal: controller.signal })
+
+    controller.abort()
+    const worker = FakeWorker.instances[0]
+    worker.reply({ type: 'result', id: 1, result: { notModified: false, packages: [], size: 1 } })
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    expect(worker.requests[1]).toEqual({ type: 'cancel', id: 1 })
+  })
+
+  it('fails pending loads when the worker breaks and parses on the main thread afterwards', async () => {
+    const loader = new FeedLoaderService()
+    const pending = loader.load(URL_BASE, 'base')
+
+    const worker = FakeWorker.instances[0]
+    worker.onerror?.({ message: 'SyntaxError' } as ErrorEvent)
+    await expect(pending).rejects.toThrow('SyntaxError')
+    expect(worker.terminate).toHaveBeenCalled()
+
+    const fetchFeed = vi.spyOn(packageManager, 'fetchFeed').mockResolvedValue({ notModified: false, packages: [], size: 1 })
+    await loader.load(URL_BASE, 'base')
+    expect(fetchFeed).toHaveBeenCalledWith(URL_BASE, 'base', undefined, {})
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+})
+
+describe('feed parser worker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('answers load requests and reports cancelled loads as aborted', async () => {
+    const posted: FeedWorkerResponse[] = []
+    vi.spyOn(self, 'postMessage').mockImplementation(message => { posted.push(message as FeedWorkerResponse) })
+    vi.spyOn(packageManager, 'fetchFeed').mockImplementation(async (_url, _name, _cached, options = {}) => {
+      options.onProgress?.({ stage: 'parse', loaded: 5 })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      if (options.signal?.aborted) throw new Error('Aborted')
+      return { notModified: false, packages: [], size: 5 }
+    })
+    await import('@/workers/feedParser.worker')
+
+    const send = (data: FeedWorkerRequest) => self.onmessage?.({ data } as MessageEvent)
+    send({ type: 'load', id: 1, feedUrl: URL_BASE, feedName: 'base', mirrorUrls: [URL_BASE] })
+    send({ type: 'load', id: 2, feedUrl: URL_BASE, feedName: 'base', mirrorUrls: [URL_BASE] })
+    send({ type: 'cancel', id: 2 })
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(posted).toEqual([
+      { type: 'progress', id: 1, progress: { stage: 'parse', loaded: 5 } },
+      { type: 'progress', id: 2, progress: { stage: 'parse', loaded: 5 } },
+      { type: 'result', id: 1, result: { notModified: false, packages: [], size: 5 } },
+      { type: 'error', id: 2, message: 'Aborted', aborted: true }
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import { MirrorService } from '../mirror'
+
+const MIRRORS = [
+  { name: 'Primary', url: 'https://downloads.example.org' },
+  { name: 'Mirror', url: 'https://mirror.example.cn/openwrt/' }
+]
+
+describe('MirrorService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    localStorage.clear()
+  })
+
+  it('rewrites URLs to the selected mirror', () => {
+    const service = new MirrorService(MIRRORS)
+    service.select('https://mirror.example.cn/openwrt')
+
+    expect(service.rewrite('https://downloads.example.org/releases/23.05.4/targets/x86/64/profiles.json'))
+      .toBe('https://mirror.example.cn/openwrt/releases/23.05.4/targets/x86/64/profiles.json')
+    expect(service.rewrite('https://other.example.com/Packages')).toBe('https://other.example.com/Packages')
+  })
+
+  it('fails over to the next mirror and prefers it afterwards', async () => {
+    const fetch = vi.fn(async (url: string) => {
+      if (url.startsWith('https://downloads.example.org')) throw new TypeError('Failed to fetch')
+      return new Response('{}', { status: 200 })
+    })
+    vi.stubGlobal('fetch', fetch)
+    const service = new MirrorService(MIRRORS)
+
+    const response = await service.fetch('https://downloads.example.org/.versions.json')
+
+    expect(response.status).toBe(200)
+    expect(fetch.mock.calls.map(call => call[0])).toEqual([
+      'https://downloads.example.org/.versions.json',
+      'https://mirror.example.cn/openwrt/.versions.json'
+    ])
+    expect(service.getPreferred().name).toBe('Mirror')
+  })
+
+  it('does not fail over on 404', async () => {
+    const fetch = vi.fn(async () => new Response('', { status: 404 }))
+    vi.stubGlobal('fetch', fetch)
+    const service = new MirrorService(MIRRORS)
+
+    const response = await service.fetch('https://downloads.example.org/targets/x86/64/sha256sums.sig')
+
+    expect(response.status).toBe(404)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+import { ModuleCacheService, type ModuleArchiveEntry, type ModuleSourceRecord } from '../moduleCache'
+import type { IndexedDbStore } from '../indexedDb'
+import type { ModuleSource } from '@/types/module'
+
+// In-memory stand-in for the IndexedDB object store; every call yields like a real transaction
+class MemoryStore<T> {
+  items = new Map<string, T>()
+  constructor(private keyPath: keyof T) {}
+  isAvailable() { return true }
+  async get(key: string) { await tick(); return this.items.get(key) }
+  async getAll() { await tick(); return [...this.items.values()] }
+  async put(value: T) { await tick(); this.items.set(String(value[this.keyPath]), structuredClone(value)) }
+  async delete(key: string) { await tick(); this.items.delete(key) }
+  async clear() { this.items.clear() }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+function source(id: string): ModuleSource {
+  return { id, name: id, url: `https://github.com/${id}`, provider: 'github', ref: 'main', modules: [] }
+}
+
+describe('ModuleCacheService', () => {
+  let sources: MemoryStore<ModuleSourceRecord>
+  let cache: ModuleCacheService
+
+  beforeEach(() => {
+    sources = new MemoryStore<ModuleSourceRecord>('id')
+    cache = new ModuleCacheService(
+      sources as unknown as IndexedDbStore<ModuleSourceRecord>,
+      new MemoryStore<ModuleArchiveEntry>('key') as unknown as IndexedDbStore<ModuleArchiveEntry>
+    )
+  })
+
+  it('stores sources in list order', async () => {
+    await cache.saveSources([source('b/modules'), source('a/modules')])
+
+    const loaded = await cache.loadSources()
+    expect(loaded.map(record => [record.id, record.order])).toEqual([['b/modules', 0], ['a/modules', 1]])
+    expect(loaded[0]).not.toHaveProperty('modules')
+  })
+
+  it('applies concurrent saves in call order', async () => {
+    await cache.saveSources([source('a/modules')])
+
+    const list = [source('a/modules'), source('b/modules')]
+    const first = cache.saveSources(list)
+    // The caller keeps changing the list while the first save is pending
+    list.length = 0
+    const second = cache.saveSources(list)
+    await Promise.all([first, second])
+
+    expect(await cache.loadSources()).toEqual([])
+  })
+})
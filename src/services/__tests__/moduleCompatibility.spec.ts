@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+
+import { ModuleCompatibilityService } from '../moduleCompatibility'
+import type { Module, ModuleDefinition, ModuleSource } from '@/types/module'
+
+function mod(id: string, extra: Partial<ModuleDefinition> = {}, files: string[] = []): Module {
+  return {
+    id,
+    definition: { name: id, version: '1.0', description: { en: id }, author: '', email: '', license: 'MIT', tags: [], category: 'system', ...extra },
+    files: files.map(path => ({ path, content: '' })),
+    readme: { en: '' }
+  }
+}
+
+function source(id: string, modules: Module[]): ModuleSource {
+  return { id, name: id, url: `https://github.com/${id}`, ref: 'main', modules }
+}
+
+describe('ModuleCompatibilityService', () => {
+  const service = new ModuleCompatibilityService()
+
+  it('orders OpenWrt releases', () => {
+    const ordered = ['22.03.7', '23.05.5', '24.10.0-rc1', '24.10.0', '24.10.2', '24.10-SNAPSHOT', 'SNAPSHOT']
+    for (let i = 1; i < ordered.length; i++) {
+      expect(service.compareReleases(ordered[i - 1], ordered[i])).toBeLessThan(0)
+    }
+    expect(service.compareReleases('24.10', '24.10.0')).toBe(0)
+  })
+
+  it('checks targets, architectures and the version range', () => {
+    const definition = mod('wifi', { targets: ['ramips', 'mediatek/filogic'], arch: ['mipsel_*', 'aarch64_cortex-a53'], min_version: '23.05', max_version: '24.10' }).definition
+
+    expect(service.checkDevice(definition, { target: 'ramips/mt7621', version: '24.10.1', arch: 'mipsel_24kc' })).toEqual([])
+    expect(service.checkDevice(definition, { target: 'mediatek/mt7622', version: '24.10.1', arch: 'aarch64_cortex-a53' })).toHaveLength(1)
+    expect(service.checkDevice(definition, { target: 'ramips/mt7621', version: 'SNAPSHOT', arch: 'x86_64' })).toHaveLength(2)
+    expect(service.checkDevice(definition, { target: 'ramips/mt7621', version: '22.03.7', arch: 'mipsel_24kc' })).toEqual([
+      'Requires OpenWrt 23.05 or newer'
+    ])
+  })
+
+  it('translates issues through the locale', () => {
+    const zh = {
+      language: 'zh-cn',
+      t: (key: string, fallback?: string) => key === 'tr-module-arch' ? '仅支持架构 {arch}' : fallback || key
+    }
+    const definition = mod('wifi', { arch: ['mipsel_*'] }).definition
+
+    expect(service.checkDevice(definition, { target: 'x86/64', version: '', arch: 'x86_64' }, zh)).toEqual(['仅支持架构 mipsel_*'])
+  })
+
+  it('resolves requirements across sources and reports missing ones', () => {
+    const sources = [
+      source('a/modules@main', [mod('app', { requires: ['lib', 'b/extra@main:base', 'gone'] }), mod('lib', { requires: ['app'] })]),
+      source('b/extra@main', [mod('base')])
+    ]
+
+    expect(service.resolveRequires(sources, { sourceId: 'a/modules@main', moduleId: 'app' })).toEqual({
+      modules: [
+        { sourceId: 'a/modules@main', moduleId: 'lib' },
+        { sourceId: 'b/extra@main', moduleId: 'base' }
+      ],
+      missing: ['gone']
+    })
+  })
+
+  it('finds declared and package conflicts', () => {
+    const sources = [source('s', [
+      mod('dnsmasq-full', { conflicts: ['adblock'], packages: ['-dnsmasq', 'dnsmasq-full'] }, ['files/etc/config/dhcp']),
+      mod('adblock', { packages: ['dnsmasq'] }, ['files/etc/config/dhcp', 'files/etc/config/adblock'])
+    ])]
+
+    const reasons = service.findConflicts(sources, { sourceId: 's', moduleId: 'adblock' }, { sourceId: 's', moduleId: 'dnsmasq-full' })
+    expect(reasons).toEqual([
+      'adblock conflicts with dnsmasq-full',
+      'Package dnsmasq is installed by one module and removed by another'
+    ])
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+
+import { ModuleLocaleService } from '../moduleLocale'
+
+describe('ModuleLocaleService', () => {
+  const service = new ModuleLocaleService()
+
+  it('falls back from the exact language to the base language and English', () => {
+    const text = { en: 'Network', zh_CN: '网络', pt: 'Rede' }
+
+    expect(service.pick(text, 'zh-cn')).toBe('网络')
+    expect(service.pick(text, 'pt-br')).toBe('Rede')
+    expect(service.pick(text, 'de')).toBe('Network')
+    expect(service.pick({ 'zh-TW': '網路' }, 'zh')).toBe('網路')
+    expect(service.pick('Network', 'de')).toBe('Network')
+    expect(service.pick(undefined, 'en')).toBe('')
+  })
+})
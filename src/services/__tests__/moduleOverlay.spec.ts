@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+
+import { ModuleOverlayService, DEFAULTS_NAME } from '../moduleOverlay'
+import type { Module, ModuleDefinition, ModuleSource } from '@/types/module'
+
+function mod(id: string, files: Record<string, string>, extra: Partial<ModuleDefinition> = {}): Module {
+  return {
+    id,
+    definition: { name: id, version: '1.0', description: { en: id }, author: '', email: '', license: 'MIT', tags: [], category: 'network', ...extra },
+    files: Object.entries(files).map(([path, content]) => ({ path, content })),
+    readme: { en: '' }
+  }
+}
+
+const source: ModuleSource = { id: 'owner/modules@main', name: 'modules', url: 'https://github.com/owner/modules', ref: 'main', modules: [] }
+
+const otherSource: ModuleSource = { ...source, id: 'other/modules@main', url: 'https://github.com/other/modules' }
+
+function selected(module: Module, from = source) {
+  return { module, source: from, selection: { sourceId: from.id, moduleId: module.id, parameters: {}, userDownloads: {} } }
+}
+
+describe('ModuleOverlayService', () => {
+  const service = new ModuleOverlayService()
+
+  it('builds the overlay in selection order and reports who wins', () => {
+    const base = mod('base', {
+      'module.yaml': '',
+      'files/etc/config/network': "config interface 'lan'\n\toption proto 'static'\n",
+      'files/etc/banner': ''
+    })
+    const vpn = mod('vpn', {
+      'files/etc/config/network': "config interface 'wg0'\n",
+      'files/etc/wireguard/wg0.conf': ''
+    }, {
+      parameterized_files: [{ file: 'files/etc/wireguard/wg0.conf', parameters: [] }],
+      downloads: [{ name: 'blocklist', path: 'files/etc/blocklist.txt' }]
+    })
+
+    const preview = service.buildPreview([selected(base), selected(vpn)])
+
+    expect(preview.entries.map(entry => entry.path)).toEqual([
+      '/etc/banner', '/etc/blocklist.txt', '/etc/config/network', '/etc/wireguard/wg0.conf'
+    ])
+    expect(preview.collisions).toHaveLength(1)
+    expect(preview.collisions[0].winner.name).toBe('vpn')
+    expect(preview.collisions[0].overridden.map(item => item.name)).toEqual(['base'])
+    expect(preview.entries.find(entry => entry.path === '/etc/wireguard/wg0.conf')?.winner.kind).toBe('parameterized')
+    expect(preview.tree.children[0].name).toBe('etc')
+  })
+
+  it('applies modules grouped per source like the build request', () => {
+    const first = mod('first', { 'files/etc/banner': '' })
+    const other = mod('other', { 'files/etc/banner': '' })
+    const last = mod('last', { 'files/etc/banner': '' })
+
+    // Selection order first, other, last; ASU applies the modules of the first source together
+    const modules = [selected(first), selected(other, otherSource), selected(last)]
+    expect(service.applyOrder(modules).map(item => item.module.id)).toEqual(['first', 'last', 'other'])
+
+    const preview = service.buildPreview(modules)
+    expect(preview.collisions[0].winner.name).toBe('other')
+    expect(preview.collisions[0].overridden.map(item => item.name)).toEqual(['first', 'last'])
+  })
+
+  it('finds UCI sections changed by modules and the defaults script', () => {
+    const wifi = mod('wifi', {
+      'files/etc/config/wireless': "config wifi-iface 'default_radio0'\nconfig wifi-device radio0\n",
+      'files/etc/uci-defaults/90-wifi': 'uci set system.@system[0].hostname=router\nuci commit'
+    })
+    const defaults = [
+      '#!/bin/sh',
+      "uci set wireless.default_radio0.ssid='home'",
+      'uci -q delete system.@system[0].zonename',
+      'uci add firewall rule',
+      'uci batch <<EOF',
+      'set network.lan.ipaddr=192.168.2.1',
+      'EOF'
+    ].join('\n')
+
+    expect(service.getScriptSections(defaults)).toEqual([
+      'wireless.default_radio0', 'system.@system', 'firewall.@rule', 'network.lan'
+    ])
+
+    const preview = service.buildPreview([selected(wifi)], defaults)
+    expect(preview.uciOverlaps).toEqual([
+      { section: 'system.@system', parties: ['wifi', DEFAULTS_NAME] },
+      { section: 'wireless.default_radio0', parties: ['wifi', DEFAULTS_NAME] }
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { ModuleSourceService } from '../moduleSources'
+import { config } from '@/config'
+
+describe('ModuleSourceService', () => {
+  const service = new ModuleSourceService()
+  const originalProviders = config.module_providers
+
+  beforeEach(() => {
+    config.module_providers = {
+      github: { proxy: 'https://proxy.example.com/' },
+      gitea: { hosts: ['git.example.com'] }
+    }
+  })
+
+  afterEach(() => {
+    config.module_providers = originalProviders
+    vi.unstubAllGlobals()
+  })
+
+  it('detects providers from known hosts', () => {
+    expect(service.resolve('git@github.com:owner/repo.git')).toMatchObject({ provider: 'github', url: 'https://github.com/owner/repo' })
+    expect(service.resolve('https://gitlab.com/group/sub/repo/-/tree/main')).toMatchObject({ provider: 'gitlab', path: 'group/sub/repo' })
+    expect(service.resolve('http://git.example.com/team/modules')).toMatchObject({ provider: 'gitea', url: 'http://git.example.com/team/modules' })
+    expect(service.resolve('https://files.example.com/modules.zip')).toMatchObject({ provider: 'archive' })
+    expect(service.resolve('https://unknown.example.com/team/modules')).toBeNull()
+    expect(service.resolve('https://unknown.example.com/team/modules', 'gitlab')).toMatchObject({ provider: 'gitlab' })
+  })
+
+  it('builds archive URLs through the proxy of the provider', () => {
+    const github = service.resolve('https://github.com/owner/repo')!
+    const gitlab = service.resolve('https://gitlab.com/group/repo')!
+    const gitea = service.resolve('https://git.example.com/team/modules')!
+
+    expect(service.getDownloadUrl(github, 'v1.0')).toBe('https://proxy.example.com/https://github.com/owner/repo/archive/v1.0.zip')
+    expect(service.getDownloadUrl(gitlab, 'main')).toBe('https://gitlab.com/group/repo/-/archive/main/repo-main.zip')
+    expect(service.getDownloadUrl(gitea, 'main')).toBe('https://git.example.com/team/modules/archive/main.zip')
+  })
+
+  it('keeps GitHub source ids and avoids ":" in the others', () => {
+    expect(service.getSourceId(service.resolve('https://github.com/owner/repo')!, 'main')).toBe('owner/repo@main')
+    expect(service.getSourceId(service.resolve('https://files.example.com/a/modules.zip')!, '')).toBe('archive/files.example.com/a/modules.zip')
+    expect(service.getSourceId(service.resolve('upload:modules.zip', 'upload')!, '')).toBe('upload/modules.zip')
+    expect(service.getSourceId(service.resolve('https://files.example.com:8443/modules.zip')!, '')).toBe('archive/files.example.com_8443/modules.zip')
+    expect(service.getSourceId(service.resolve('http://git.example.com:3000/team/modules', 'gitea')!, 'main')).toBe('gitea/git.example.com_3000/team/modules@main')
+  })
+  it('pins the build to the parsed commit', () => {
+    const sha = '0123456789abcdef0123456789abcdef01234567'
+    expect(service.getPinnedRef('main', sha)).toBe(sha)
+    expect(service.getPinnedRef('main', 'sha256:abc')).toBe('main')
+    expect(service.getPinnedRef('main', '"etag-1"')).toBe('main')
+    expect(service.getPinnedRef('v1.0')).toBe('v1.0')
+  })
+
+  it('resolves refs to commits through the API of the provider', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const body = url.includes('/api/v1/') ? [{ sha: 'c0ffee' }] : url.includes('/api/v4/') ? { id: 'beef' } : { sha: 'abc123' }
+      return new Response(JSON.stringify(body))
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect(await service.resolveRevision(service.resolve('https://github.com/owner/repo')!, 'main')).toBe('abc123')
+    expect(await service.resolveRevision(service.resolve('https://gitlab.com/group/sub/repo')!, 'v1')).toBe('beef')
+    expect(await service.resolveRevision(service.resolve('https://git.example.com/team/modules')!, 'main')).toBe('c0ffee')
+
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'https://api.github.com/repos/owner/repo/commits/main',
+      'https://gitlab.com/api/v4/projects/group%2Fsub%2Frepo/repository/commits/v1',
+      'https://git.example.com/api/v1/repos/team/modules/commits?sha=main&limit=1&stat=false&files=false'
+    ])
+  })
+})
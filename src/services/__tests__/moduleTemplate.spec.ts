@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+
+import { ModuleTemplateService } from '../moduleTemplate'
+import type { Module } from '@/types/module'
+
+describe('ModuleTemplateService', () => {
+  const service = new ModuleTemplateService()
+
+  const module: Module = {
+    id: 'lan',
+    definition: {
+      name: 'lan', version: '1.0', description: { en: '' }, author: '', email: '', license: 'MIT', tags: [], category: 'network',
+      parameterized_files: [{
+        file: 'files/etc/config/network',
+        parameters: [
+          { name: 'ipaddr', required: true, default: '192.168.1.1', description: '' },
+          { name: 'netmask', required: false, description: '' },
+          { name: 'dns', required: false, description: '' }
+        ]
+      }]
+    },
+    files: [{
+      path: 'files/etc/config/network',
+      content: "config interface 'lan'\n\toption ipaddr '{{ ipaddr }}'\n\toption netmask '{{netmask}}'\n\toption gateway '{{gateway}}'\n"
+    }],
+    readme: { en: '' }
+  }
+
+  it('renders values, defaults and reports parameter problems', () => {
+    const paramFile = module.definition.parameterized_files![0]
+    const selection = { sourceId: 's', moduleId: 'lan', parameters: { 'files/etc/config/network:ipaddr': '10.0.0.1' }, userDownloads: {} }
+
+    const rendered = service.renderFile(module, paramFile, selection)
+    expect(rendered.output).toBe("config interface 'lan'\n\toption ipaddr '10.0.0.1'\n\toption netmask ''\n\toption gateway '{{gateway}}'\n")
+    expect(rendered.unused).toEqual(['dns'])
+    expect(rendered.undeclared).toEqual(['gateway'])
+    expect(rendered.empty).toEqual(['netmask'])
+
+    expect(service.renderFile(module, paramFile, undefined).output).toContain("'192.168.1.1'")
+  })
+
+  it('pairs changed lines in the diff', () => {
+    expect(service.diffLines('a\nb {{x}}\nc', 'a\nb 1\nc\nd').map(line => line.type)).toEqual(['same', 'changed', 'same', 'added'])
+  })
+})
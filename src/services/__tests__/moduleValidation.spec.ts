@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+
+import { ModuleValidationService } from '../moduleValidation'
+import type { ModuleParameter } from '@/types/module'
+
+function param(extra: Partial<ModuleParameter>): ModuleParameter {
+  return { name: 'value', required: false, description: '', ...extra }
+}
+
+describe('ModuleValidationService', () => {
+  const service = new ModuleValidationService()
+
+  it('validates typed parameters', () => {
+    const valid = (p: ModuleParameter, value: string) => service.validateParameter(p, value).isValid
+
+    expect(valid(param({ type: 'boolean' }), '1')).toBe(true)
+    expect(valid(param({ type: 'boolean' }), 'yes')).toBe(false)
+    expect(valid(param({ type: 'integer', min: 1, max: 65535 }), '8080')).toBe(true)
+    expect(valid(param({ type: 'integer', min: 1, max: 65535 }), '70000')).toBe(false)
+    expect(valid(param({ type: 'enum', options: ['psk2', { value: 'sae', label: 'WPA3' }] }), 'sae')).toBe(true)
+    expect(valid(param({ type: 'enum', options: ['psk2'] }), 'none')).toBe(false)
+    expect(valid(param({ type: 'ipv4' }), '192.168.1.256')).toBe(false)
+    expect(valid(param({ type: 'ipv6' }), 'fd00::1')).toBe(true)
+    expect(valid(param({ type: 'ipv6' }), '::ffff:192.0.2.1')).toBe(true)
+    expect(valid(param({ type: 'ipv6' }), '1::2::3')).toBe(false)
+    expect(valid(param({ type: 'cidr' }), '10.0.0.0/8')).toBe(true)
+    expect(valid(param({ type: 'cidr' }), 'fd00::/129')).toBe(false)
+    expect(valid(param({ type: 'mac' }), '00:11:22:33:44:55')).toBe(true)
+    expect(valid(param({ type: 'password', min_length: 8 }), 'short')).toBe(false)
+    expect(valid(param({ type: 'list', validation: { pattern: '^\\d+$' } }), '53 853')).toBe(true)
+    expect(valid(param({ type: 'list', validation: { pattern: '^\\d+$' } }), '53 dns')).toBe(false)
+  })
+
+  it('joins and splits list values with the separator', () => {
+    const list = param({ type: 'list', separator: ',' })
+    expect(service.joinList(list, ['a', ' b ', ''])).toBe('a,b')
+    expect(service.splitList(list, 'a, b,,c')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('translates messages and picks the custom message for the language', () => {
+    const zh = {
+      language: 'zh-cn',
+      t: (key: string, fallback?: string) => key === 'tr-module-invalid-format' ? '{name} 格式不正确: {message}' : fallback || key
+    }
+    const ssid = param({
+      name: 'ssid',
+      required: true,
+      validation: { pattern: '^\\w+$', message: { en: 'letters only', zh_CN: '只能包含字母' } }
+    })
+
+    expect(service.validateParameter(ssid, '').errorMessage).toBe('ssid is required')
+    expect(service.validateParameter(ssid, 'a b').errorMessage).toBe('ssid has an invalid format: letters only')
+    expect(service.validateParameter(ssid, 'a b', zh).errorMessage).toBe('ssid 格式不正确: 只能包含字母')
+  })
+
+  it('falls back to English for languages without translations', () => {
+    const de = { language: 'de', t: (key: string, fallback?: string) => fallback || key }
+    const port = param({ name: 'port', required: true, type: 'integer', max: 65535 })
+
+    expect(service.validateParameter(port, '', de).errorMessage).toBe('port is required')
+    expect(service.validateParameter(port, '70000', de).errorMessage).toBe('port: must not be greater than 65535')
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { PackageManagerService } from '../packageManager'
+import { mirrorService } from '../mirror'
+import type { OpenWrtPackage } from '@/types/package'
+
+vi.mock('@/tools/adbdump.js', () => ({
+  parsePackagesAdbFromBytes: vi.fn(async () => ({
+    packages: [{
+      name: 'dnsmasq-full',
+      version: '2.90-r4',
+      arch: 'aarch64_cortex-a53',
+      depends: ['libc', 'libubus20250102', '!dnsmasq'],
+      provides: ['dnsmasq=2.90-r4'],
+      replaces: ['dnsmasq'],
+      'provider-priority': 10
+    }]
+  }))
+}))
+
+const IPK_INDEX = `Package: dnsmasq-full
+Version: 2.90-r4
+Depends: libc, libubus20250102, libnettle8
+Conflicts: dnsmasq
+Provides: dnsmasq (=2.90-r4)
+Replaces: dnsmasq
+Architecture: aarch64_cortex-a53
+Filename: dnsmasq-full_2.90-r4_aarch64_cortex-a53.ipk
+
+Package: broken
+Version: 1.0
+`
+
+function pkg(name: string, extra: Partial<OpenWrtPackage> = {}): OpenWrtPackage {
+  return { name, version: '1', section: 'base', architecture: 'all', filename: `${name}.ipk`, size: 0, sha256sum: '', description: '', ...extra }
+}
+
+describe('PackageManagerService', () => {
+  const service = new PackageManagerService()
+
+  beforeEach(() => {
+    vi.spyOn(mirrorService, 'fetch').mockImplementation(async () => new Response(new Uint8Array([1, 2, 3])))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('parses Provides, Replaces and Conflicts of opkg indexes', () => {
+    const packages = service.parsePackagesFile(IPK_INDEX, 'base')
+
+    expect(packages).toHaveLength(1)
+    expect(packages[0]).toMatchObject({
+      name: 'dnsmasq-full',
+      depends: ['libubus20250102', 'libnettle8'],
+      conflicts: [{ name: 'dnsmasq' }],
+      provides: [{ name: 'dnsmasq', operator: '=', version: '2.90-r4' }],
+      replaces: [{ name: 'dnsmasq' }],
+      source: 'base'
+    })
+  })
+
+  it('maps provides, replaces and "!pkg" conflicts of apk indexes', async () => {
+    const result = await service.fetchFeed('https://mirror/base/packages.adb', 'base')
+
+    expect(result.packages![0]).toMatchObject({
+      name: 'dnsmasq-full',
+      depends: ['libubus20250102'],
+      conflicts: [{ name: 'dnsmasq' }],
+      provides: [{ name: 'dnsmasq', operator: '=', version: '2.90-r4' }],
+      replaces: [{ name: 'dnsmasq' }],
+      providerPriority: 10,
+      filename: 'dnsmasq-full_2.90-r4_aarch64_cortex-a53.apk'
+    })
+  })
+
+  it('resolves virtual names to the provider with the highest priority', () => {
+    const packages = [
+      pkg('luci-ssl', { depends: ['libustream-tls'] }),
+      pkg('libustream-mbedtls', { provides: [{ name: 'libustream-tls' }] }),
+      pkg('libustream-openssl', { provides: [{ name: 'libustream-tls' }], providerPriority: 100, depends: ['libopenssl3'] }),
+      pkg('libopenssl3')
+    ]
+    const index = service.buildProviderIndex(packages)
+
+    expect(index.providers.get('libustream-tls')!.map(item => item.name)).toEqual(['libustream-openssl', 'libustream-mbedtls'])
+    expect(service.findPackage('libustream-tls', index)?.name).toBe('libustream-openssl')
+    expect(service.findPackage('luci-ssl', index)?.name).toBe('luci-ssl')
+    expect(service.getDependencyTree('luci-ssl', index)).toEqual(['libustream-openssl', 'libopenssl3'])
+    expect(service.filterAvailablePackages(['libustream-tls', 'htop'], packages)).toEqual({ available: ['libustream-tls'], missing: ['htop'] })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+
+import { PackageMigrationService } from '../packageMigration'
+import type { OpenWrtPackage } from '@/types/package'
+
+function pkg(name: string, source: string, extra: Partial<OpenWrtPackage> = {}): OpenWrtPackage {
+  return { name, version: '1', size: 0, section: 'base', architecture: 'mips_24kc', description: '', source, ...extra } as OpenWrtPackage
+}
+
+describe('PackageMigrationService', () => {
+  it('resolves renamed, moved, provided and missing packages', () => {
+    const service = new PackageMigrationService()
+    const report = service.migrate({
+      fromVersion: '23.05.5',
+      toVersion: 'SNAPSHOT',
+      configuration: {
+        addedPackages: ['luci-app-foo', 'libubox20230523', 'old-tool', 'wpad', 'gone'],
+        removedPackages: ['ppp', 'odhcpd']
+      },
+      fromPackages: [
+        pkg('luci-app-foo', 'packages'),
+        pkg('libubox20230523', 'base'),
+        pkg('old-tool', 'packages'),
+        pkg('wpad', 'base'),
+        pkg('gone', 'packages')
+      ],
+      toPackages: [
+        pkg('luci-app-foo', 'luci'),
+        pkg('libubox20240329', 'base'),
+        pkg('new-tool', 'packages', { replaces: [{ name: 'old-tool' }] }),
+        pkg('wpad-basic-mbedtls', 'base', { provides: [{ name: 'wpad' }] }),
+        pkg('ppp', 'base'),
+        pkg('odhcpd-ipv6only', 'base')
+      ],
+      toDefaultPackages: ['ppp', 'odhcpd-ipv6only']
+    })
+
+    const statuses = Object.fromEntries(report.entries.map(entry => [entry.name, entry.status]))
+    expect(statuses).toEqual({
+      'luci-app-foo': 'moved',
+      libubox20230523: 'renamed',
+      'old-tool': 'renamed',
+      wpad: 'provided',
+      gone: 'missing',
+      ppp: 'kept',
+      odhcpd: 'not_default'
+    })
+    expect(report.fromFormat).toBe('ipk')
+    expect(report.toFormat).toBe('apk')
+    expect(report.configuration).toEqual({
+      addedPackages: ['luci-app-foo', 'libubox20240329', 'new-tool', 'wpad'],
+      removedPackages: ['ppp']
+    })
+  })
+
+  it('keeps the selection unchecked when the new feeds are unavailable', () => {
+    const service = new PackageMigrationService()
+    const report = service.migrate({
+      fromVersion: '23.05.5',
+      toVersion: '23.05.6',
+      configuration: { addedPackages: ['htop'], removedPackages: [] },
+      fromPackages: [pkg('htop', 'packages')],
+      toPackages: [],
+      toDefaultPackages: []
+    })
+
+    expect(report.feedsUnavailable).toBe(true)
+    expect(report.entries).toEqual([])
+    expect(report.configuration.addedPackages).toEqual(['htop'])
+  })
+})
@@ -0,0 +1,92 @@
+// @vitest-environment node
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+
+import { config } from '@/config'
+import { ReleaseVerifierService } from '../releaseVerifier'
+import { usign } from '../usign'
+
+const HASH_A = 'a'.repeat(64)
+const HASH_B = 'b'.repeat(64)
+
+// Build usign files the way "usign -G" / "usign -S" lay them out
+function encodeUsign(comment: string, keyNum: Uint8Array, payload: Uint8Array): string {
+  const data = new Uint8Array([0x45, 0x64, ...keyNum, ...payload])
+  return `untrusted comment: ${comment}\n${btoa(String.fromCharCode(...data))}\n`
+}
+
+describe('ReleaseVerifierService', () => {
+  it('cross-checks sha256sums against the profile images', () => {
+    const verifier = new ReleaseVerifierService()
+    const sums = verifier.parseSums(`${HASH_A} *openwrt-sysupgrade.bin\n${HASH_B.toUpperCase()} *openwrt-factory.bin\n`)
+
+    const checks = verifier.compareImages([
+      { name: 'openwrt-sysupgrade.bin', type: 'sysupgrade', sha256: HASH_A },
+      { name: 'openwrt-factory.bin', type: 'factory', sha256: HASH_A },
+      { name: 'openwrt-kernel.bin', type: 'kernel', sha256: HASH_A }
+    ], sums)
+
+    expect(checks.map(check => check.status)).toEqual(['match', 'mismatch', 'missing'])
+  })
+
+  describe('with a signed folder', () => {
+    const defaultKeys = config.release_keys
+
+    afterEach(() => {
+      config.release_keys = defaultKeys
+      vi.unstubAllGlobals()
+    })
+
+    it('picks up release keys configured after the first check', async () => {
+      const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair
+      const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+      const keyNum = new Uint8Array([8, 7, 6, 5, 4, 3, 2, 1])
+      const sums = new TextEncoder().encode(`${HASH_A} *openwrt-sysupgrade.bin\n`)
+      const signature = new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keyPair.privateKey, sums))
+
+      const files: Record<string, BodyInit> = {
+        sha256sums: sums,
+        'sha256sums.sig': encodeUsign('signed by key 0807060504030201', keyNum, signature)
+      }
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        const body = files[url.split('/').pop()!]
+        return body ? new Response(body) : new Response(null, { status: 404 })
+      }))
+
+      const verifier = new ReleaseVerifierService()
+      const folder = 'https://downloads.example.com/releases/23.05.5/targets/ath79/generic'
+      const images = [{ name: 'openwrt-sysupgrade.bin', type: 'sysupgrade', sha256: HASH_A }]
+
+      // No keys are bundled, sites configure the keys of their download host
+      expect((await verifier.verifyFolder(folder, images)).signature.status).toBe('no_keys')
+
+      config.release_keys = [{ name: 'Other', key: encodeUsign('other public key', new Uint8Array(8), publicKey) }]
+      expect((await verifier.verifyFolder(folder, images)).signature.status).toBe('unknown_key')
+
+      config.release_keys = [{ name: 'Fork', key: encodeUsign('fork public key', keyNum, publicKey) }]
+      const result = await verifier.verifyFolder(folder, images)
+      expect(result.signature).toMatchObject({ status: 'valid', keyName: 'Fork' })
+    })
+  })
+})
+
+describe('UsignService', () => {
+  it('verifies an Ed25519 signature over the complete message', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+    const keyNum = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8])
+    const message = new TextEncoder().encode(`${HASH_A} *openwrt-sysupgrade.bin\n`)
+    const signature = new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keyPair.privateKey, message))
+
+    const key = usign.parsePublicKey(encodeUsign('test public key', keyNum, publicKey))
+    const sig = usign.parseSignature(encodeUsign('signed by key 0102030405060708', keyNum, signature))
+
+    expect(key.keyId).toBe('0102030405060708')
+    expect(await usign.verify(message, sig, key)).toBe(true)
+    expect(await usign.verify(new TextEncoder().encode('tampered'), sig, key)).toBe(false)
+  })
+
+  it('rejects malformed keys', () => {
+    expect(() => usign.parsePublicKey('untrusted comment: x\nRWQ=')).toThrow()
+  })
+})
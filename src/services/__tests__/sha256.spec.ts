@@ -0,0 +1,59 @@
+// @vitest-environment node
+
+import { describe, it, expect } from 'vitest'
+
+import { Sha256 } from '../sha256'
+import { ImageVerifierService } from '../imageVerifier'
+
+const encoder = new TextEncoder()
+
+async function webCryptoHex(data: Uint8Array): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+  return Array.from(hash, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+describe('Sha256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1']
+  ])('hashes %j', (input, expected) => {
+    expect(new Sha256().update(encoder.encode(input)).digest()).toBe(expected)
+  })
+
+  it('gives the same result for any chunking', async () => {
+    const data = new Uint8Array(10000).map((_, index) => (index * 31) % 251)
+    const expected = await webCryptoHex(data)
+
+    for (const chunkSize of [1, 7, 63, 64, 65, 1000]) {
+      const hasher = new Sha256()
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        hasher.update(data.subarray(offset, offset + chunkSize))
+      }
+      expect(hasher.digest()).toBe(expected)
+    }
+  })
+})
+
+describe('ImageVerifierService', () => {
+  it('verifies a file against a sha256sum line', async () => {
+    const verifier = new ImageVerifierService()
+    const file = new Blob([encoder.encode('abc')])
+
+    const result = await verifier.verifyFile(
+      file,
+      'BA7816BF8F01CFEA414140DE5DAE2223B00361A396177A9CB410FF61F20015AD  openwrt-sysupgrade.bin'
+    )
+
+    expect(result.match).toBe(true)
+    expect(result.size).toBe(3)
+  })
+
+  it('reports a mismatch', async () => {
+    const verifier = new ImageVerifierService()
+    const result = await verifier.verifyFile(new Blob([encoder.encode('abd')]), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+
+    expect(result.match).toBe(false)
+    expect(result.actual).not.toBe(result.expected)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+
+import { SiteConfigService } from '../siteConfig'
+
+describe('SiteConfigService', () => {
+  it('keeps valid fields and reports invalid and unknown ones', () => {
+    const service = new SiteConfigService()
+
+    const result = service.validate({
+      brand_name: 'OpenWrt',
+      image_url: 'https://downloads.openwrt.org/',
+      asu_url: 'ftp://example.com',
+      show_snapshots: 'yes',
+      theme: 'dark'
+    })
+
+    expect(result.config).toEqual({ brand_name: 'OpenWrt', image_url: 'https://downloads.openwrt.org' })
+    expect(result.errors).toHaveLength(2)
+    expect(result.errors[0]).toContain('asu_url')
+    expect(result.warnings[0]).toContain('theme')
+  })
+
+  it('parses query overrides but never release keys or endpoints', () => {
+    const service = new SiteConfigService()
+
+    const result = service.parseQueryOverrides(
+      '?version=23.05.4&cfg.brand_name=Fork&cfg.enable_module_management=1&cfg.apk_versions=SNAPSHOT,25.12&cfg.release_keys=[]'
+    )
+
+    expect(result.config).toEqual({
+      brand_name: 'Fork',
+      enable_module_management: true,
+      apk_versions: ['SNAPSHOT', '25.12']
+    })
+    expect(result.errors).toEqual(['查询参数 "cfg.release_keys" 不能覆盖配置'])
+  })
+
+  it('keeps download and build servers out of query overrides', () => {
+    const service = new SiteConfigService()
+
+    const result = service.parseQueryOverrides(
+      '?cfg.image_url=https://evil.example.com&cfg.asu_url=https://evil.example.com&cfg.mirrors=[]&cfg.module_providers={}'
+    )
+
+    expect(result.config).toEqual({})
+    expect(result.errors).toEqual([
+      '查询参数 "cfg.image_url" 不能覆盖配置',
+      '查询参数 "cfg.asu_url" 不能覆盖配置',
+      '查询参数 "cfg.mirrors" 不能覆盖配置',
+      '查询参数 "cfg.module_providers" 不能覆盖配置'
+    ])
+  })
+})
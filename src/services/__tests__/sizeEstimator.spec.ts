@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+import { ImageSizeEstimatorService } from '../sizeEstimator'
+import type { DeviceProfile } from '../api'
+import type { OpenWrtPackage } from '@/types/package'
+
+const MB = 1024 * 1024
+
+function pkg(name: string, size: number, installedSize?: number): OpenWrtPackage {
+  return { name, version: '1', section: 'base', architecture: 'all', filename: `${name}.ipk`, size, installedSize, sha256sum: '', description: '' }
+}
+
+const profile = (id: string) => ({ id }) as DeviceProfile
+
+describe('ImageSizeEstimatorService', () => {
+  const estimator = new ImageSizeEstimatorService()
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('sums package sizes of the listed packages', () => {
+    const packages = [pkg('luci', 1000 * 1000, 4000 * 1000), pkg('htop', 0, 100 * 1000)]
+    const estimate = estimator.estimate(null, ['luci', 'htop', '-ppp', 'unknown'], packages)
+
+    expect(estimate.packageCount).toBe(2)
+    expect(estimate.downloadSize).toBe(1000 * 1000)
+    expect(estimate.installedSize).toBe(4100 * 1000)
+    expect(estimate.rootfsSize).toBe(850 * 1000 + 40 * 1000)
+    expect(estimate.totalSize).toBe(estimate.rootfsSize + 3 * MB)
+    expect(estimate.unknownPackages).toEqual(['unknown'])
+  })
+
+  it('compares the estimate with the flash budget', () => {
+    const small = estimator.estimate(null, ['luci'], [pkg('luci', 4 * MB)])
+    const large = estimator.estimate(null, ['luci'], [pkg('luci', 5 * MB)])
+
+    expect(estimator.detectFlashSizeMb(profile('hiwifi_hc5761-8m'))).toBe(8)
+    expect(estimator.detectFlashSizeMb(profile('tplink_archer-c7-v5'))).toBeNull()
+
+    const budget = estimator.getBudget(profile('hiwifi_hc5761-8m'))!
+    expect(budget).toEqual({ flashSizeMb: 8, usableBytes: 8 * MB - 768 * 1024, source: 'profile' })
+    expect(estimator.check(small, budget).status).toBe('ok')
+    expect(estimator.check(large, budget).status).toBe('tight')
+    expect(estimator.check(estimator.estimate(null, ['luci'], [pkg('luci', 6 * MB)]), budget).status).toBe('overflow')
+    expect(estimator.check(small, null).status).toBe('unknown')
+  })
+
+  it('prefers the flash size the user set', () => {
+    estimator.setUserFlashSize('hiwifi_hc5761-8m', 16)
+    expect(estimator.getBudget(profile('hiwifi_hc5761-8m'))?.flashSizeMb).toBe(16)
+
+    estimator.setUserFlashSize('hiwifi_hc5761-8m', null)
+    expect(estimator.getBudget(profile('hiwifi_hc5761-8m'))?.source).toBe('profile')
+  })
+})
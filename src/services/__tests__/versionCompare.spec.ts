@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+
+import { VersionCompareService } from '../versionCompare'
+import type { DeviceProfile } from '../api'
+import type { OpenWrtPackage } from '@/types/package'
+
+function profile(overrides: Partial<DeviceProfile>): DeviceProfile {
+  return {
+    id: 'tplink_archer-c7-v2',
+    target: 'ath79/generic',
+    titles: [],
+    images: [],
+    device_packages: [],
+    version_number: '23.05.4',
+    version_code: 'r24012',
+    build_at: '',
+    default_packages: [],
+    arch_packages: 'mips_24kc',
+    linux_kernel: { version: '5.15.162', release: '1', vermagic: 'aaa' },
+    ...overrides
+  }
+}
+
+function pkg(name: string, version: string, size: number): OpenWrtPackage {
+  return { name, version, size, section: 'base', architecture: 'mips_24kc', description: '' } as OpenWrtPackage
+}
+
+describe('VersionCompareService', () => {
+  it('diffs kernel, package lists and image types', () => {
+    const service = new VersionCompareService()
+    const from = profile({
+      default_packages: ['dnsmasq', 'firewall4', 'opkg'],
+      images: [{ name: 'a', type: 'sysupgrade' }, { name: 'b', type: 'factory' }]
+    })
+    const to = profile({
+      version_number: '24.10.0',
+      default_packages: ['dnsmasq', 'firewall4', 'apk-mbedtls'],
+      images: [{ name: 'a', type: 'sysupgrade' }],
+      linux_kernel: { version: '6.6.73', release: '1', vermagic: 'bbb' }
+    })
+
+    const result = service.compareProfiles(from, to)
+
+    expect(result.kernelChanged).toBe(true)
+    expect(result.defaultPackages).toEqual({ added: ['apk-mbedtls'], removed: ['opkg'], unchanged: ['dnsmasq', 'firewall4'] })
+    expect(result.imageTypes.removed).toEqual(['factory'])
+  })
+
+  it('orders size changes by the largest difference', () => {
+    const service = new VersionCompareService()
+
+    const changes = service.compareSizes(
+      ['dnsmasq', 'opkg', 'apk-mbedtls', 'missing'],
+      [pkg('dnsmasq', '2.89-4', 100), pkg('opkg', '2022-02-24', 50)],
+      [pkg('dnsmasq', '2.90-2', 120), pkg('apk-mbedtls', '3.0.0', 400)]
+    )
+
+    expect(changes.map(change => [change.name, change.delta])).toEqual([
+      ['apk-mbedtls', 400],
+      ['opkg', -50],
+      ['dnsmasq', 20]
+    ])
+  })
+})
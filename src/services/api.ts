@@ -1,3 +1,5 @@
+import { mirrorService } from '@/services/mirror'
+
 export interface DeviceProfile {
   id: string
   target: string
@@ -73,7 +75,7 @@ export class ApiService {
   }
 
   async getVersions(): Promise<VersionsResponse> {
-    const response = await fetch(`${this.baseUrl}/.versions.json`, {
+    const response = await mirrorService.fetch(`${this.baseUrl}/.versions.json`, {
       cache: 'no-cache'
     })
     
@@ -87,7 +89,7 @@ export class ApiService {
 
   async getOverview(version: string, imageUrl?: string): Promise<OverviewResponse> {
     const overviewUrl = this.buildOverviewUrl(version, imageUrl)
-    const response = await fetch(`${overviewUrl}/.overview.json`, {
+    const response = await mirrorService.fetch(`${overviewUrl}/.overview.json`, {
       cache: 'no-cache'
     })
     
@@ -100,7 +102,7 @@ export class ApiService {
 
   async getProfiles(version: string, target: string, imageUrl?: string): Promise<ProfilesResponse> {
     const baseUrl = this.buildImageUrl(version, imageUrl)
-    const response = await fetch(`${baseUrl}/targets/${target}/profiles.json`, {
+    const response = await mirrorService.fetch(`${baseUrl}/targets/${target}/profiles.json`, {
       cache: 'no-cache'
     })
     
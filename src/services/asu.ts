@@ -1,4 +1,6 @@
 import { config } from '@/config'
+import { buildLog } from '@/services/buildLog'
+import type { ResolutionResult } from '@/services/dependencyResolver'
 
 export interface AsuBuildRequest {
   target: string
@@ -15,12 +17,14 @@ export interface AsuBuildRequest {
   // Module support
   modules?: {
     source_id: string
+    provider?: string // github, gitlab, gitea, archive or upload
     url: string
     ref: string
     selected_modules: {
       module_id: string
       parameters: { [key: string]: string }
       user_downloads: { [key: string]: string }
+      files?: { path: string; content: string }[] // Module files of uploaded sources
     }[]
   }[]
 }
@@ -71,7 +75,9 @@ export class AsuService {
     })
 
     if (!response.ok) {
-      throw new Error(`ASU build request failed: ${response.statusText}`)
+      // 400/422 responses explain what is wrong with the request
+      const data = await response.json().catch(() => null)
+      throw new Error(`ASU build request failed: ${data?.detail || response.statusText || `HTTP ${response.status}`}`)
     }
 
     return await response.json()
@@ -149,7 +155,7 @@ export class AsuService {
     return Math.abs(hash).toString(16)
   }
 
-  validateManifest(manifest: any, packages: string[]): {
+  validateManifest(manifest: any, packages: string[], resolution?: ResolutionResult | null): {
     valid: boolean
     missing: string[]
     conflicts: string[]
@@ -176,6 +182,11 @@ export class AsuService {
       }
     }
 
+    // Conflicts come from the dependency resolution of the same package set
+    for (const conflict of resolution?.conflicts || []) {
+      conflicts.push(`${conflict.package} <-> ${conflict.conflictsWith}`)
+    }
+
     return {
       valid: missing.length === 0 && conflicts.length === 0,
       missing,
@@ -197,16 +208,6 @@ export class AsuService {
   }
 
   getProgressPercentage(status: string): number {
-    const progressMap: Record<string, number> = {
-      'tr-init': 10,
-      'tr-container-setup': 15,
-      'tr-download-imagebuilder': 20,
-      'tr-validate-manifest': 30,
-      'tr-unpack-imagebuilder': 40,
-      'tr-calculate-packages-hash': 60,
-      'tr-building-image': 80,
-    }
-    
-    return progressMap[status] || 0
+    return buildLog.getStatusInfo(status).progress
   }
 }
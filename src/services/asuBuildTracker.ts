@@ -0,0 +1,239 @@
+// Polls an ASU build until it finishes, with backoff, retries and cancellation
+
+import { config } from '@/config'
+import { AsuService, type AsuStatusResponse } from '@/services/asu'
+import type { BuildState } from '@/types/build'
+
+export interface TrackerUpdate {
+  httpStatus: number
+  state: BuildState
+  response: AsuStatusResponse
+  queuePosition?: number
+  imagebuilderStatus?: string
+  progress: number // 0-100, derived from imagebuilder_status
+  etaSeconds?: number // Estimated wait, only known once the queue has moved
+}
+
+export interface TrackOptions {
+  signal?: AbortSignal
+  onUpdate?: (update: TrackerUpdate) => void
+}
+
+export interface AsuBuildTrackerOptions {
+  baseUrl?: string
+  fetch?: typeof fetch
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>
+  initialInterval?: number // First poll delay while the build is running (ms)
+  maxInterval?: number // Upper bound for poll and retry delays (ms)
+  backoffFactor?: number
+  maxRetries?: number // Consecutive transient failures before giving up
+}
+
+export class AsuTrackerError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus?: number,
+    public readonly response?: AsuStatusResponse
+  ) {
+    super(message)
+    this.name = 'AsuTrackerError'
+  }
+}
+
+// Statuses worth retrying: rate limiting and proxy/gateway errors
+const TRANSIENT_STATUSES = [408, 425, 429, 502, 503, 504]
+
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Build tracking aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Build tracking aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export class AsuBuildTracker {
+  private readonly baseUrl: string
+  private readonly fetchFn: typeof fetch
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>
+  private readonly initialInterval: number
+  private readonly maxInterval: number
+  private readonly backoffFactor: number
+  private readonly maxRetries: number
+  private asuService = new AsuService()
+
+  constructor(options: AsuBuildTrackerOptions = {}) {
+    this.baseUrl = options.baseUrl ?? config.asu_url ?? ''
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init))
+    this.sleep = options.sleep ?? defaultSleep
+    this.initialInterval = options.initialInterval ?? 2000
+    this.maxInterval = options.maxInterval ?? 30000
+    this.backoffFactor = options.backoffFactor ?? 1.5
+    this.maxRetries = options.maxRetries ?? 5
+  }
+
+  /**
+   * Poll a build until it succeeds or fails. Rejects with AsuTrackerError when the server
+   * keeps failing, and with an AbortError when the signal is aborted.
+   */
+  async track(requestHash: string, options: TrackOptions = {}): Promise<TrackerUpdate> {
+    const { signal, onUpdate } = options
+    const queueSamples: Array<{ at: number; position: number }> = []
+
+    let interval = this.initialInterval
+    let retries = 0
+    let lastPhase = ''
+
+    for (;;) {
+      signal?.throwIfAborted()
+
+      let response: Response
+      try {
+        response = await this.fetchFn(`${this.baseUrl}/api/v1/build/${requestHash}`, {
+          signal,
+          cache: 'no-store'
+        })
+      } catch (error) {
+        if (signal?.aborted) throw error
+        retries = this.checkRetries(retries, `无法连接构建服务器: ${error instanceof Error ? error.message : error}`)
+        await this.sleep(this.getRetryDelay(retries), signal)
+        continue
+      }
+
+      const data = await this.readJson(response)
+
+      // Transient errors, including 5xx responses that are not ASU error documents
+      if (TRANSIENT_STATUSES.includes(response.status) || (response.status >= 500 && !data)) {
+        retries = this.checkRetries(retries, `构建服务器暂时不可用 (HTTP ${response.status})`, response.status)
+        const retryAfter = this.getRetryAfter(response)
+        await this.sleep(retryAfter ?? this.getRetryDelay(retries), signal)
+        continue
+      }
+      retries = 0
+
+      const update = this.toUpdate(response.status, data || {}, queueSamples)
+      onUpdate?.(update)
+
+      if (update.state === 'success' || update.state === 'no_sysupgrade') {
+        return update
+      }
+      if (update.state === 'failure') {
+        throw new AsuTrackerError(this.getFailureMessage(response.status, update.response), response.status, update.response)
+      }
+
+      // Poll faster again whenever the build moves on, back off while nothing changes
+      const phase = `${update.queuePosition ?? ''}|${update.imagebuilderStatus ?? ''}`
+      interval = phase !== lastPhase
+        ? this.initialInterval
+        : Math.min(interval * this.backoffFactor, this.maxInterval)
+      lastPhase = phase
+
+      await this.sleep(this.getRetryAfter(response) ?? interval, signal)
+    }
+  }
+
+  private toUpdate(
+    httpStatus: number,
+    data: Partial<AsuStatusResponse>,
+    queueSamples: Array<{ at: number; position: number }>
+  ): TrackerUpdate {
+    const response = data as AsuStatusResponse
+    const queuePosition = typeof data.queue_position === 'number' ? data.queue_position : undefined
+    const imagebuilderStatus = data.imagebuilder_status || undefined
+
+    let state: BuildState
+    if (httpStatus === 200) {
+      state = data.status === 'no_sysupgrade' ? 'no_sysupgrade' : 'success'
+    } else if (httpStatus === 202) {
+      state = queuePosition ? 'requested' : 'building'
+    } else {
+      // 400 bad request, 404 unknown/expired hash, 422 invalid request, 500 failed build
+      state = 'failure'
+    }
+
+    let etaSeconds: number | undefined
+    if (queuePosition) {
+      queueSamples.push({ at: Date.now(), position: queuePosition })
+      etaSeconds = this.estimateQueueWait(queueSamples)
+    }
+
+    return {
+      httpStatus,
+      state,
+      response,
+      queuePosition,
+      imagebuilderStatus,
+      progress: state === 'success' ? 100 : this.asuService.getProgressPercentage(imagebuilderStatus || ''),
+      etaSeconds
+    }
+  }
+
+  /**
+   * Extrapolate the queue wait from how fast the position has dropped so far
+   */
+  private estimateQueueWait(samples: Array<{ at: number; position: number }>): number | undefined {
+    if (samples.length < 2) return undefined
+
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const advanced = first.position - last.position
+    const elapsed = (last.at - first.at) / 1000
+    if (advanced <= 0 || elapsed <= 0) return undefined
+
+    return Math.round(last.position * elapsed / advanced)
+  }
+
+  private getFailureMessage(httpStatus: number, response: AsuStatusResponse): string {
+    if (response.detail) return response.detail
+    switch (httpStatus) {
+      case 400: return '构建请求无效 (HTTP 400)'
+      case 404: return '构建请求不存在或已过期 (HTTP 404)'
+      case 422: return '构建请求参数校验失败 (HTTP 422)'
+      case 500: return '固件构建失败 (HTTP 500)'
+      default: return `构建失败 (HTTP ${httpStatus})`
+    }
+  }
+
+  private checkRetries(retries: number, message: string, httpStatus?: number): number {
+    const next = retries + 1
+    if (next > this.maxRetries) {
+      throw new AsuTrackerError(message, httpStatus)
+    }
+    return next
+  }
+
+  private getRetryDelay(retries: number): number {
+    return Math.min(this.initialInterval * Math.pow(2, retries - 1), this.maxInterval)
+  }
+
+  private getRetryAfter(response: Response): number | undefined {
+    const value = response.headers.get('Retry-After')
+    if (!value) return undefined
+
+    const seconds = Number(value)
+    if (!isNaN(seconds)) return Math.min(seconds * 1000, this.maxInterval)
+
+    const date = Date.parse(value)
+    return isNaN(date) ? undefined : Math.min(Math.max(date - Date.now(), 0), this.maxInterval)
+  }
+
+  private async readJson(response: Response): Promise<Partial<AsuStatusResponse> | null> {
+    try {
+      const data = await response.json()
+      return data && typeof data === 'object' ? data : null
+    } catch {
+      return null
+    }
+  }
+}
+
+export const asuBuildTracker = new AsuBuildTracker()
@@ -0,0 +1,57 @@
+// Build history persistence
+
+import type { BuildRecord } from '@/types/build'
+
+// Logs are kept from the end, where build errors are reported
+const MAX_LOG_LENGTH = 64 * 1024
+const MAX_RECORDS = 50
+
+export class BuildHistoryService {
+  private readonly STORAGE_KEY = 'openwrt-build-history'
+
+  /**
+   * Load build records, newest first
+   */
+  load(): BuildRecord[] {
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY)
+      const records = data ? JSON.parse(data) : []
+      return Array.isArray(records) ? records : []
+    } catch (error) {
+      console.error('Failed to load build history:', error)
+      return []
+    }
+  }
+
+  save(records: BuildRecord[]): void {
+    const trimmed = records.slice(0, MAX_RECORDS).map(record => ({
+      ...record,
+      stdout: this.trimLog(record.stdout),
+      stderr: this.trimLog(record.stderr)
+    }))
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(trimmed))
+    } catch (error) {
+      // Quota exceeded: keep the records but drop the logs
+      console.warn('Build history too large, dropping logs:', error)
+      try {
+        const withoutLogs = trimmed.map(record => ({ ...record, stdout: undefined, stderr: undefined }))
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(withoutLogs))
+      } catch (retryError) {
+        console.error('Failed to save build history:', retryError)
+      }
+    }
+  }
+
+  generateId(): string {
+    return `build_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+  }
+
+  private trimLog(log?: string): string | undefined {
+    if (!log || log.length <= MAX_LOG_LENGTH) return log
+    return log.slice(log.length - MAX_LOG_LENGTH)
+  }
+}
+
+export const buildHistory = new BuildHistoryService()
@@ -0,0 +1,161 @@
+// ASU build status catalog and build log parsing
+
+export interface BuildStatusInfo {
+  id: string // Normalized imagebuilder_status, e.g. "building_image"
+  label: string // Chinese fallback label
+  translationKey: string // Key in the firmware selector translations, e.g. "tr-building-image"
+  progress: number // 0-100
+  known: boolean
+}
+
+export type LogSectionType = 'command' | 'prepare' | 'download' | 'install' | 'image' | 'stderr'
+
+export interface LogLine {
+  number: number // 1-based line number within the source log
+  text: string
+  isError: boolean
+}
+
+export interface LogSection {
+  type: LogSectionType
+  title: string
+  source: 'stdout' | 'stderr' | 'build_cmd'
+  lines: LogLine[]
+  hasError: boolean
+  firstErrorIndex: number // Index into lines, -1 without errors
+}
+
+// Known imagebuilder_status values in the order ASU reports them
+const STATUS_CATALOG: Array<Omit<BuildStatusInfo, 'translationKey' | 'known'>> = [
+  { id: 'queued', label: '排队等待中', progress: 0 },
+  { id: 'init', label: '已收到构建请求', progress: 5 },
+  { id: 'container_setup', label: '正在准备构建容器', progress: 10 },
+  { id: 'download_imagebuilder', label: '正在下载 ImageBuilder', progress: 20 },
+  { id: 'unpack_imagebuilder', label: '正在解压 ImageBuilder', progress: 30 },
+  { id: 'validate_revision', label: '正在校验版本', progress: 35 },
+  { id: 'validate_manifest', label: '正在校验软件包清单', progress: 45 },
+  { id: 'calculate_packages_hash', label: '正在计算软件包哈希', progress: 55 },
+  { id: 'building_image', label: '正在生成固件映像', progress: 75 },
+  { id: 'signing_images', label: '正在签名固件', progress: 90 },
+  { id: 'done', label: '构建完成', progress: 100 },
+  { id: 'failed', label: '构建失败', progress: 100 }
+]
+
+const SECTION_TITLES: Record<LogSectionType, string> = {
+  command: '构建命令',
+  prepare: '准备',
+  download: '下载软件包',
+  install: '安装软件包',
+  image: '生成固件',
+  stderr: '错误输出'
+}
+
+// Lines that start a new stage in ImageBuilder output (opkg and apk)
+const SECTION_MARKERS: Array<{ type: LogSectionType; pattern: RegExp }> = [
+  { type: 'download', pattern: /^(Downloading |Updated list of available packages|Signature check passed|fetch https?:|Updating package index|Package index .* is up to date)/i },
+  { type: 'install', pattern: /^(Installing |Configuring |\(\d+\/\d+\) (Installing|Upgrading|Purging)|Resolving dependencies|Collected errors:|Executing \S+\.(post-install|pre-install))/i },
+  { type: 'image', pattern: /^(Building images|Creating filesystem|Parallel mksquashfs|mksquashfs|Calculating checksums|Creating image|Generating image|.*sysupgrade\.(bin|img))/i }
+]
+
+const ERROR_PATTERN = /\b(error|failed|cannot|can't|unable to|not found|unsatisfiable|breaks:|conflicts:|no space left|too big)\b/i
+// ImageBuilder prints counters like "0 errors"; those are not failures
+const ERROR_EXCLUDE_PATTERN = /\b0 errors?\b|\bno errors?\b/i
+
+export class BuildLogService {
+  /**
+   * Normalize an ASU status: "tr-building-image", "building-image" and "building_image" are the same
+   */
+  normalizeStatus(status: string): string {
+    return status.trim().toLowerCase().replace(/^tr-/, '').replace(/-/g, '_')
+  }
+
+  /**
+   * Describe an imagebuilder_status; unknown statuses keep the progress of the last known step
+   */
+  getStatusInfo(status: string, previous?: string): BuildStatusInfo {
+    const id = this.normalizeStatus(status)
+    const translationKey = `tr-${id.replace(/_/g, '-')}`
+    const entry = STATUS_CATALOG.find(item => item.id === id)
+    if (entry) {
+      return { ...entry, translationKey, known: true }
+    }
+
+    const previousEntry = previous ? STATUS_CATALOG.find(item => item.id === this.normalizeStatus(previous)) : undefined
+    return {
+      id,
+      label: id.replace(/_/g, ' '),
+      translationKey,
+      progress: previousEntry?.progress ?? 0,
+      known: false
+    }
+  }
+
+  /**
+   * Split build output into stages so failures can be located without reading raw logs
+   */
+  parseLog(stdout?: string, stderr?: string, buildCmd?: string[]): LogSection[] {
+    const sections: LogSection[] = []
+
+    if (buildCmd?.length) {
+      sections.push(this.createSection('command', 'build_cmd', [
+        { number: 1, text: buildCmd.join(' '), isError: false }
+      ]))
+    }
+
+    if (stdout) {
+      let current: LogSection | null = null
+      stdout.split('\n').forEach((text, index) => {
+        const marker = SECTION_MARKERS.find(item => item.pattern.test(text.trim()))
+        const type = marker?.type || current?.type || 'prepare'
+        if (!current || current.type !== type) {
+          current = this.createSection(type, 'stdout', [])
+          sections.push(current)
+        }
+        current.lines.push({ number: index + 1, text, isError: this.isErrorLine(text) })
+      })
+    }
+
+    if (stderr?.trim()) {
+      const lines = stderr.split('\n').map((text, index) => ({
+        number: index + 1,
+        text,
+        isError: this.isErrorLine(text)
+      }))
+      sections.push(this.createSection('stderr', 'stderr', lines))
+    }
+
+    for (const section of sections) {
+      section.firstErrorIndex = section.lines.findIndex(line => line.isError)
+      section.hasError = section.firstErrorIndex !== -1
+    }
+
+    // Drop sections without content, e.g. a trailing newline in an empty log
+    return sections.filter(section => section.lines.some(line => line.text.trim()))
+  }
+
+  /**
+   * The first stage with an error; stderr only when stdout shows none
+   */
+  findFailingSection(sections: LogSection[]): LogSection | null {
+    return sections.find(section => section.hasError && section.type !== 'stderr')
+      || sections.find(section => section.hasError)
+      || null
+  }
+
+  isErrorLine(text: string): boolean {
+    return ERROR_PATTERN.test(text) && !ERROR_EXCLUDE_PATTERN.test(text)
+  }
+
+  private createSection(type: LogSectionType, source: LogSection['source'], lines: LogLine[]): LogSection {
+    return {
+      type,
+      title: SECTION_TITLES[type],
+      source,
+      lines,
+      hasError: false,
+      firstErrorIndex: -1
+    }
+  }
+}
+
+export const buildLog = new BuildLogService()
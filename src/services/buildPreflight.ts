@@ -0,0 +1,213 @@
+// Pre-build feasibility checks against the loaded package feeds
+
+import { AsuService } from '@/services/asu'
+import { dependencyResolver, type ResolutionResult } from '@/services/dependencyResolver'
+import type { DeviceProfile } from '@/services/api'
+import type { OverlayPreview } from '@/services/moduleOverlay'
+import type { OpenWrtPackage } from '@/types/package'
+
+export type PreflightIssueType =
+  | 'index-unavailable'
+  | 'missing'
+  | 'architecture'
+  | 'vermagic'
+  | 'dependency'
+  | 'conflict'
+  | 'reinstated'
+  | 'file-collision'
+  | 'uci-overlap'
+
+export interface PreflightIssue {
+  type: PreflightIssueType
+  severity: 'error' | 'warning'
+  package?: string
+  message: string
+}
+
+export interface PreflightReport {
+  issues: PreflightIssue[]
+  errorCount: number
+  warningCount: number
+  canBuild: boolean
+}
+
+export interface PreflightInput {
+  packages: string[] // Final package list sent to ASU ('-pkg' entries are removals)
+  availablePackages: OpenWrtPackage[]
+  profile: DeviceProfile
+  resolution: ResolutionResult | null
+  failedFeeds: string[] // Feeds that failed to load, their packages cannot be checked
+  overlay?: OverlayPreview // Files of the selected modules and the uci-defaults script
+}
+
+// Architectures that install on any target
+const ARCH_INDEPENDENT = ['all', 'noarch']
+
+export class BuildPreflightService {
+  private asuService = new AsuService()
+
+  /**
+   * Check whether a build request can be satisfied before sending it to ASU
+   */
+  check(input: PreflightInput): PreflightReport {
+    const issues: PreflightIssue[] = []
+
+    if (input.availablePackages.length === 0) {
+      issues.push({
+        type: 'index-unavailable',
+        severity: 'warning',
+        message: '软件包索引未加载，无法在构建前检查软件包'
+      })
+      issues.push(...this.checkOverlay(input.overlay))
+      return this.buildReport(issues)
+    }
+
+    // Feeds that failed to load may contain the packages we cannot find
+    const incompleteIndex = input.failedFeeds.length > 0
+    for (const feed of input.failedFeeds) {
+      issues.push({
+        type: 'index-unavailable',
+        severity: 'warning',
+        message: `软件源 ${feed} 加载失败，其中的软件包无法检查`
+      })
+    }
+
+    // Missing packages (manifest check against the feed index, including virtual names)
+    const manifest = this.buildManifest(input.availablePackages)
+    const validation = this.asuService.validateManifest(manifest, input.packages, input.resolution)
+    for (const name of validation.missing) {
+      issues.push({
+        type: 'missing',
+        severity: incompleteIndex ? 'warning' : 'error',
+        package: name,
+        message: `软件包 ${name} 在当前软件源中不存在`
+      })
+    }
+
+    const resolution = input.resolution
+    if (resolution) {
+      const requested = new Set(validation.missing)
+      for (const dep of resolution.missing) {
+        if (requested.has(dep.name) && !dep.requiredBy) continue // Already reported as missing
+        issues.push({
+          type: 'dependency',
+          severity: incompleteIndex ? 'warning' : 'error',
+          package: dep.name,
+          message: dep.availableVersions.length > 0
+            ? `${dep.requiredBy || '请求'} 需要 ${dep.constraint}，可用版本: ${dep.availableVersions.join(', ')}`
+            : `${dep.requiredBy || '请求'} 依赖的 ${dep.constraint} 无法满足`
+        })
+      }
+
+      for (const conflict of resolution.conflicts) {
+        issues.push({
+          type: 'conflict',
+          severity: 'error',
+          package: conflict.package,
+          message: `${conflict.package} 与 ${conflict.conflictsWith} 冲突 (${conflict.constraint})`
+        })
+      }
+
+      for (const name of resolution.reinstated) {
+        issues.push({
+          type: 'reinstated',
+          severity: 'warning',
+          package: name,
+          message: `${name} 已被移除，但仍被其他软件包依赖，构建时会重新安装`
+        })
+      }
+    }
+
+    // Architecture and kernel checks on everything that will be installed
+    const installed = resolution
+      ? resolution.resolved.map(pkg => pkg.package)
+      : input.packages
+        .filter(name => !name.startsWith('-'))
+        .map(name => input.availablePackages.find(pkg => pkg.name === name))
+        .filter((pkg): pkg is OpenWrtPackage => !!pkg)
+
+    for (const pkg of installed) {
+      const archIssue = this.checkArchitecture(pkg, input.profile)
+      if (archIssue) issues.push(archIssue)
+
+      const kernelIssue = this.checkVermagic(pkg, input.profile)
+      if (kernelIssue) issues.push(kernelIssue)
+    }
+
+    issues.push(...this.checkOverlay(input.overlay))
+
+    return this.buildReport(issues)
+  }
+
+  // Overlapping module files build fine, but the result may not be what the user expects
+  private checkOverlay(overlay: OverlayPreview | undefined): PreflightIssue[] {
+    if (!overlay) return []
+
+    return [
+      ...overlay.collisions.map(entry => ({
+        type: 'file-collision' as const,
+        severity: 'warning' as const,
+        message: `${entry.path} 由 ${entry.winner.name} 写入，覆盖 ${entry.overridden.map(item => item.name).join(', ')}`
+      })),
+      ...overlay.uciOverlaps.map(overlap => ({
+        type: 'uci-overlap' as const,
+        severity: 'warning' as const,
+        message: `UCI 配置节 ${overlap.section} 同时被 ${overlap.parties.join(', ')} 修改`
+      }))
+    ]
+  }
+
+  private checkArchitecture(pkg: OpenWrtPackage, profile: DeviceProfile): PreflightIssue | null {
+    const arch = profile.arch_packages
+    if (!arch || !pkg.architecture) return null
+    if (pkg.architecture === arch || ARCH_INDEPENDENT.includes(pkg.architecture)) return null
+
+    return {
+      type: 'architecture',
+      severity: 'error',
+      package: pkg.name,
+      message: `${pkg.name} 的架构为 ${pkg.architecture}，设备需要 ${arch}`
+    }
+  }
+
+  private checkVermagic(pkg: OpenWrtPackage, profile: DeviceProfile): PreflightIssue | null {
+    if (!pkg.name.startsWith('kmod-') || !profile.linux_kernel?.vermagic) return null
+
+    // kmods pin the exact kernel build, e.g. "kernel (=5.15.167-1-<vermagic>)"
+    const kernelDep = dependencyResolver.getDependencyConstraints(pkg)
+      .find(dep => dep.name === 'kernel' && dep.version)
+    if (!kernelDep?.version || kernelDep.version.includes(profile.linux_kernel.vermagic)) return null
+
+    return {
+      type: 'vermagic',
+      severity: 'error',
+      package: pkg.name,
+      message: `${pkg.name} 为内核 ${kernelDep.version} 编译，与设备内核 ${profile.linux_kernel.version}-${profile.linux_kernel.release}-${profile.linux_kernel.vermagic} 不匹配`
+    }
+  }
+
+  private buildManifest(packages: OpenWrtPackage[]): { packages: Record<string, string> } {
+    const manifest: Record<string, string> = {}
+    for (const pkg of packages) {
+      manifest[pkg.name] = pkg.version
+      for (const provide of pkg.provides || []) {
+        if (!(provide.name in manifest)) {
+          manifest[provide.name] = provide.version || pkg.version
+        }
+      }
+    }
+    return { packages: manifest }
+  }
+
+  private buildReport(issues: PreflightIssue[]): PreflightReport {
+    const errorCount = issues.filter(issue => issue.severity === 'error').length
+    return {
+      issues,
+      errorCount,
+      warningCount: issues.length - errorCount,
+      canBuild: errorCount === 0
+    }
+  }
+}
+
+export const buildPreflight = new BuildPreflightService()
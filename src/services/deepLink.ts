@@ -0,0 +1,88 @@
+// Deep links: /<version>/<target>/<subtarget>/<profile>?image=<type>
+
+import type { LocationQuery, LocationQueryRaw, RouteLocationNamedRaw, RouteParamsGeneric } from 'vue-router'
+
+export interface DeepLinkState {
+  version: string
+  target: string // "target/subtarget"
+  profile: string // Profile id
+  imageType: string // Preferred image type, e.g. sysupgrade
+}
+
+export class DeepLinkService {
+  /**
+   * Read the state from a route. Returns null on the home page.
+   */
+  fromRoute(params: RouteParamsGeneric, query: LocationQuery): DeepLinkState | null {
+    const version = this.param(params.version)
+    if (!version) return null
+
+    const target = this.param(params.target)
+    const subtarget = this.param(params.subtarget)
+    return {
+      version,
+      target: target && subtarget ? `${target}/${subtarget}` : '',
+      profile: target && subtarget ? this.param(params.profile) : '',
+      imageType: this.param(query.image)
+    }
+  }
+
+  /**
+   * Route of a state. Query parameters that are not part of the link (e.g. ?config=) are kept.
+   */
+  toLocation(state: DeepLinkState, query: LocationQuery = {}): RouteLocationNamedRaw {
+    const rest: LocationQueryRaw = { ...query }
+    delete rest.image
+    if (state.imageType) rest.image = state.imageType
+
+    if (!state.version) {
+      return { name: 'home', query: rest }
+    }
+
+    const [target, subtarget] = state.target.split('/')
+    if (!state.profile || !target || !subtarget) {
+      return { name: 'version', params: { version: state.version }, query: rest }
+    }
+
+    return {
+      name: 'device',
+      params: { version: state.version, target, subtarget, profile: state.profile },
+      query: rest
+    }
+  }
+
+  /**
+   * Links of the previous firmware selector: ?version=23.05.5&target=ath79%2Fgeneric&id=tplink_archer-c7-v2
+   */
+  fromLegacyQuery(query: LocationQuery): { state: DeepLinkState; query: LocationQuery } | null {
+    const version = this.param(query.version)
+    if (!version) return null
+
+    const rest = { ...query }
+    delete rest.version
+    delete rest.target
+    delete rest.id
+
+    return {
+      state: {
+        version,
+        target: this.param(query.target),
+        profile: this.param(query.id),
+        imageType: this.param(query.image)
+      },
+      query: rest
+    }
+  }
+
+  isSame(a: DeepLinkState | null, b: DeepLinkState | null): boolean {
+    if (!a || !b) return a === b
+    return a.version === b.version && a.target === b.target && a.profile === b.profile && a.imageType === b.imageType
+  }
+
+  private param(value: unknown): string {
+    if (Array.isArray(value)) return this.param(value[0])
+    return typeof value === 'string' ? value.trim() : ''
+  }
+}
+
+export const deepLink = new DeepLinkService()
@@ -0,0 +1,418 @@
+// Package dependency resolver for opkg (ipk) and apk feeds
+
+import type { OpenWrtPackage, PackageConstraint, VersionOperator } from '@/types/package'
+
+export type ResolutionReasonType = 'device' | 'default' | 'extra' | 'module' | 'requested' | 'dependency'
+
+export interface ResolutionReason {
+  type: ResolutionReasonType
+  from?: string // Package that pulled this one in (for dependencies)
+  constraint?: string // Constraint as written in the feed, e.g. "libubox>=2024.01"
+}
+
+export interface ResolutionRequest {
+  spec: string // Package name, optionally prefixed with '-' for removal
+  reason: Exclude<ResolutionReasonType, 'dependency'>
+}
+
+export interface ResolvedPackage {
+  name: string
+  package: OpenWrtPackage
+  via?: string // Virtual name this package was selected for
+  reasons: ResolutionReason[]
+}
+
+export type RejectionType = 'removed' | 'replaced'
+
+export interface RejectedPackage {
+  name: string
+  type: RejectionType
+  by?: string // Package that replaced this one
+  reasons: ResolutionReason[]
+}
+
+export interface MissingDependency {
+  name: string
+  constraint: string
+  requiredBy?: string
+  availableVersions: string[] // Non-empty when the package exists but no version satisfies the constraint
+}
+
+export interface ResolutionConflict {
+  package: string
+  conflictsWith: string
+  constraint: string
+}
+
+export interface ResolutionResult {
+  install: string[] // Final install set, sorted
+  resolved: ResolvedPackage[]
+  rejected: RejectedPackage[]
+  missing: MissingDependency[]
+  conflicts: ResolutionConflict[]
+  reinstated: string[] // Removed packages that are still required by a dependency
+  isValid: boolean
+}
+
+interface PackageIndex {
+  byName: Map<string, OpenWrtPackage[]>
+  providers: Map<string, Array<{ pkg: OpenWrtPackage; version?: string }>>
+}
+
+export class DependencyResolverService {
+  /**
+   * Parse a dependency string in opkg ("foo (>= 1.0)") or apk ("foo>=1.0", "!bar") syntax
+   */
+  parseConstraint(spec: string): { constraint: PackageConstraint; conflict: boolean } | null {
+    let value = spec.trim()
+    if (!value) return null
+
+    // opkg alternatives ("a | b") are rare in OpenWrt feeds; use the first one
+    value = value.split('|')[0].trim()
+
+    const conflict = value.startsWith('!')
+    if (conflict) value = value.substring(1).trim()
+
+    // opkg style: name (op version)
+    const opkgMatch = value.match(/^([^\s(]+)\s*\(\s*(<<|>>|<=|>=|=|<|>)\s*([^)\s]+)\s*\)$/)
+    if (opkgMatch) {
+      return {
+        constraint: {
+          name: opkgMatch[1],
+          operator: this.normalizeOperator(opkgMatch[2]),
+          version: opkgMatch[3]
+        },
+        conflict
+      }
+    }
+
+    // apk style: name op version
+    const apkMatch = value.match(/^([^<>=~\s]+)\s*(><|>~|<~|<=|>=|=|<|>|~)\s*(\S+)$/)
+    if (apkMatch) {
+      // '><' pins a checksum rather than a version; treat it as unversioned
+      if (apkMatch[2] === '><') {
+        return { constraint: { name: apkMatch[1] }, conflict }
+      }
+      return {
+        constraint: {
+          name: apkMatch[1],
+          operator: this.normalizeOperator(apkMatch[2]),
+          version: apkMatch[3]
+        },
+        conflict
+      }
+    }
+
+    const name = value.match(/^([^\s(<>=~]+)/)
+    return name ? { constraint: { name: name[1] }, conflict } : null
+  }
+
+  /**
+   * Parse a comma-separated opkg field (Depends, Conflicts, Provides, Replaces)
+   */
+  parseConstraintList(value: string): PackageConstraint[] {
+    if (!value) return []
+
+    return value
+      .split(',')
+      .map(part => this.parseConstraint(part))
+      .filter((parsed): parsed is { constraint: PackageConstraint; conflict: boolean } => !!parsed)
+      .map(parsed => parsed.constraint)
+  }
+
+  formatConstraint(constraint: PackageConstraint): string {
+    if (!constraint.operator || !constraint.version) return constraint.name
+    return `${constraint.name}${constraint.operator}${constraint.version}`
+  }
+
+  /**
+   * Compare two package versions, returns <0, 0 or >0.
+   * Follows the dpkg algorithm (also used by opkg); apk pre-release suffixes
+   * (_alpha, _beta, _pre, _rc) sort before the release they precede.
+   */
+  compareVersions(a: string, b: string): number {
+    const [epochA, restA] = this.splitEpoch(a)
+    const [epochB, restB] = this.splitEpoch(b)
+    if (epochA !== epochB) return epochA - epochB
+
+    return this.compareFragments(this.normalizeVersion(restA), this.normalizeVersion(restB))
+  }
+
+  /**
+   * Check whether a version satisfies an operator/version pair
+   */
+  satisfies(version: string | undefined, constraint: PackageConstraint): boolean {
+    if (!constraint.operator || !constraint.version) return true
+    if (!version) return false
+
+    if (constraint.operator === '~') {
+      return version === constraint.version || version.startsWith(constraint.version)
+    }
+
+    const cmp = this.compareVersions(version, constraint.version)
+    switch (constraint.operator) {
+      case '=': return cmp === 0
+      case '<': return cmp < 0
+      case '<=': return cmp <= 0
+      case '>': return cmp > 0
+      case '>=': return cmp >= 0
+    }
+  }
+
+  /**
+   * Resolve the final install set for a list of requested packages
+   */
+  resolve(requests: ResolutionRequest[], packages: OpenWrtPackage[]): ResolutionResult {
+    const index = this.buildIndex(packages)
+
+    // Apply requests in order, a later '-pkg' removes an earlier 'pkg' and vice versa
+    const wanted = new Map<string, ResolutionReason>()
+    const removed = new Map<string, ResolutionReason[]>()
+    for (const request of requests) {
+      const spec = request.spec.trim()
+      if (!spec) continue
+
+      if (spec.startsWith('-')) {
+        const name = spec.substring(1)
+        wanted.delete(name)
+        removed.set(name, [...(removed.get(name) || []), { type: request.reason }])
+      } else {
+        removed.delete(spec)
+        if (!wanted.has(spec)) {
+          wanted.set(spec, { type: request.reason })
+        }
+      }
+    }
+
+    const selected = new Map<string, ResolvedPackage>()
+    const provided = new Map<string, Array<{ name: string; version?: string }>>()
+    const missing: MissingDependency[] = []
+    const reinstated = new Set<string>()
+
+    const queue: Array<{ constraint: PackageConstraint; reason: ResolutionReason }> = []
+    for (const [spec, reason] of wanted) {
+      const parsed = this.parseConstraint(spec)
+      if (parsed) queue.push({ constraint: parsed.constraint, reason })
+    }
+
+    const select = (pkg: OpenWrtPackage, via: string | undefined, reason: ResolutionReason) => {
+      selected.set(pkg.name, { name: pkg.name, package: pkg, via, reasons: [reason] })
+      for (const provide of pkg.provides || []) {
+        provided.set(provide.name, [
+          ...(provided.get(provide.name) || []),
+          { name: pkg.name, version: provide.version }
+        ])
+      }
+      for (const dependency of this.getDependencyConstraints(pkg)) {
+        queue.push({
+          constraint: dependency,
+          reason: { type: 'dependency', from: pkg.name, constraint: this.formatConstraint(dependency) }
+        })
+      }
+    }
+
+    while (queue.length > 0) {
+      const { constraint, reason } = queue.shift()!
+
+      const existing = this.findSelected(constraint, selected, provided)
+      if (existing) {
+        existing.reasons.push(reason)
+        continue
+      }
+
+      const candidate = this.pickCandidate(constraint, index, wanted)
+      if (!candidate) {
+        missing.push({
+          name: constraint.name,
+          constraint: this.formatConstraint(constraint),
+          requiredBy: reason.from,
+          availableVersions: (index.byName.get(constraint.name) || []).map(pkg => pkg.version)
+        })
+        continue
+      }
+
+      if (reason.type === 'dependency' && removed.has(candidate.name)) {
+        reinstated.add(candidate.name)
+      }
+      select(candidate, candidate.name !== constraint.name ? constraint.name : undefined, reason)
+    }
+
+    // Check conflicts between selected packages
+    const conflicts: ResolutionConflict[] = []
+    const rejected: RejectedPackage[] = []
+    for (const [name, reasons] of removed) {
+      if (!selected.has(name)) {
+        rejected.push({ name, type: 'removed', reasons })
+      }
+    }
+
+    for (const resolved of [...selected.values()]) {
+      if (!selected.has(resolved.name)) continue // Already replaced
+
+      for (const conflict of resolved.package.conflicts || []) {
+        const target = this.findSelected(conflict, selected, provided, resolved.name)
+        if (!target) continue
+
+        const isReplaced = (resolved.package.replaces || []).some(replace =>
+          replace.name === target.name && this.satisfies(target.package.version, replace)
+        )
+        const explicitlyRequested = target.reasons.some(r => r.type === 'requested')
+
+        if (isReplaced && !explicitlyRequested) {
+          selected.delete(target.name)
+          rejected.push({ name: target.name, type: 'replaced', by: resolved.name, reasons: target.reasons })
+        } else {
+          conflicts.push({
+            package: resolved.name,
+            conflictsWith: target.name,
+            constraint: this.formatConstraint(conflict)
+          })
+        }
+      }
+    }
+
+    return {
+      install: [...selected.keys()].sort(),
+      resolved: [...selected.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      rejected: rejected.sort((a, b) => a.name.localeCompare(b.name)),
+      missing,
+      conflicts,
+      reinstated: [...reinstated].filter(name => selected.has(name)).sort(),
+      isValid: missing.length === 0 && conflicts.length === 0
+    }
+  }
+
+  /**
+   * Get structured dependency constraints, falling back to plain names
+   */
+  getDependencyConstraints(pkg: OpenWrtPackage): PackageConstraint[] {
+    if (pkg.dependencies) return pkg.dependencies
+    return (pkg.depends || []).map(name => ({ name }))
+  }
+
+  private buildIndex(packages: OpenWrtPackage[]): PackageIndex {
+    const byName = new Map<string, OpenWrtPackage[]>()
+    const providers = new Map<string, Array<{ pkg: OpenWrtPackage; version?: string }>>()
+
+    for (const pkg of packages) {
+      byName.set(pkg.name, [...(byName.get(pkg.name) || []), pkg])
+      for (const provide of pkg.provides || []) {
+        providers.set(provide.name, [...(providers.get(provide.name) || []), { pkg, version: provide.version }])
+      }
+    }
+
+    // Newest version first
+    for (const list of byName.values()) {
+      list.sort((a, b) => this.compareVersions(b.version, a.version))
+    }
+
+    return { byName, providers }
+  }
+
+  private findSelected(
+    constraint: PackageConstraint,
+    selected: Map<string, ResolvedPackage>,
+    provided: Map<string, Array<{ name: string; version?: string }>>,
+    exclude?: string
+  ): ResolvedPackage | undefined {
+    const direct = selected.get(constraint.name)
+    if (direct && direct.name !== exclude && this.satisfies(direct.package.version, constraint)) {
+      return direct
+    }
+
+    for (const provider of provided.get(constraint.name) || []) {
+      if (provider.name === exclude) continue
+      const version = provider.version
+      if (constraint.operator && !version) continue
+      if (this.satisfies(version, constraint)) {
+        return selected.get(provider.name)
+      }
+    }
+
+    return undefined
+  }
+
+  private pickCandidate(
+    constraint: PackageConstraint,
+    index: PackageIndex,
+    wanted: Map<string, ResolutionReason>
+  ): OpenWrtPackage | undefined {
+    const direct = (index.byName.get(constraint.name) || [])
+      .find(pkg => this.satisfies(pkg.version, constraint))
+    if (direct) return direct
+
+    const providers = (index.providers.get(constraint.name) || [])
+      .filter(provider => constraint.operator ? !!provider.version && this.satisfies(provider.version, constraint) : true)
+      .sort((a, b) =>
+        Number(wanted.has(b.pkg.name)) - Number(wanted.has(a.pkg.name)) ||
+        (b.pkg.providerPriority || 0) - (a.pkg.providerPriority || 0) ||
+        a.pkg.name.localeCompare(b.pkg.name)
+      )
+
+    return providers[0]?.pkg
+  }
+
+  private normalizeOperator(op: string): VersionOperator {
+    switch (op) {
+      case '<<': return '<'
+      case '>>': return '>'
+      case '<~': return '<='
+      case '>~': return '>='
+      default: return op as VersionOperator
+    }
+  }
+
+  private splitEpoch(version: string): [number, string] {
+    const match = version.match(/^(\d+):(.*)$/)
+    return match ? [parseInt(match[1], 10), match[2]] : [0, version]
+  }
+
+  private normalizeVersion(version: string): string {
+    return version.replace(/_(alpha|beta|pre|rc)/g, '~$1')
+  }
+
+  private compareFragments(a: string, b: string): number {
+    let i = 0
+    let j = 0
+
+    while (i < a.length || j < b.length) {
+      // Compare non-digit prefix
+      while ((i < a.length && !this.isDigit(a[i])) || (j < b.length && !this.isDigit(b[j]))) {
+        const orderA = this.charOrder(a[i])
+        const orderB = this.charOrder(b[j])
+        if (orderA !== orderB) return orderA - orderB
+        i++
+        j++
+      }
+
+      // Compare numeric part
+      while (a[i] === '0') i++
+      while (b[j] === '0') j++
+
+      let firstDiff = 0
+      while (i < a.length && this.isDigit(a[i]) && j < b.length && this.isDigit(b[j])) {
+        if (!firstDiff) firstDiff = a.charCodeAt(i) - b.charCodeAt(j)
+        i++
+        j++
+      }
+      if (i < a.length && this.isDigit(a[i])) return 1
+      if (j < b.length && this.isDigit(b[j])) return -1
+      if (firstDiff) return firstDiff
+    }
+
+    return 0
+  }
+
+  private isDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '9'
+  }
+
+  private charOrder(char: string | undefined): number {
+    if (char === undefined || this.isDigit(char)) return 0
+    if (char === '~') return -1
+    if (/[a-zA-Z]/.test(char)) return char.charCodeAt(0)
+    return char.charCodeAt(0) + 256
+  }
+}
+
+export const dependencyResolver = new DependencyResolverService()
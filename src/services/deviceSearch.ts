@@ -0,0 +1,253 @@
+// Indexed device search with typo tolerance and vendor/target/image type facets
+
+import type { ProcessedDevice } from '@/stores/firmware'
+
+export interface DeviceSearchFilters {
+  vendors: string[] // Any of
+  targets: string[] // Any of, "target/subtarget"
+  imageTypes: string[] // All of
+}
+
+export interface DeviceIndexEntry {
+  device: ProcessedDevice
+  key: string // "target/id", one profile can have several titles
+  vendor: string
+  otherTitles: string[] // Other titles of the same profile
+  imageTypes: string[]
+  titleTokens: string[]
+  otherTokens: string[] // Profile id and other titles
+  compactTitle: string
+  compactOther: string
+}
+
+export interface DeviceIndex {
+  entries: DeviceIndexEntry[]
+}
+
+export interface DeviceSearchResult {
+  device: ProcessedDevice
+  score: number
+  matchedTitle?: string // Other title of the profile that matched the query
+  vendor: string
+  imageTypes: string[]
+}
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+export interface DeviceFacets {
+  vendors: FacetValue[]
+  targets: FacetValue[]
+  imageTypes: FacetValue[]
+}
+
+// Scores of one query token against an entry
+const SCORE_EXACT = 10
+const SCORE_PREFIX = 7
+const SCORE_SUBSTRING = 4
+const SCORE_FUZZY = 2
+// Matches on the title weigh more than matches on the id or other titles
+const OTHER_FIELD_FACTOR = 0.8
+
+export class DeviceSearchService {
+  buildIndex(devices: ProcessedDevice[]): DeviceIndex {
+    const titlesByKey = new Map<string, string[]>()
+    for (const device of devices) {
+      const key = this.getKey(device)
+      const titles = titlesByKey.get(key)
+      if (titles) {
+        titles.push(device.title)
+      } else {
+        titlesByKey.set(key, [device.title])
+      }
+    }
+
+    const entries = devices.map(device => {
+      const key = this.getKey(device)
+      const otherTitles = titlesByKey.get(key)!.filter(title => title !== device.title)
+      const other = [device.id, ...otherTitles].join(' ')
+      return {
+        device,
+        key,
+        vendor: this.getVendor(device),
+        otherTitles,
+        imageTypes: this.getImageTypes(device),
+        titleTokens: this.tokenize(device.title),
+        otherTokens: this.tokenize(other),
+        compactTitle: this.compact(device.title),
+        compactOther: this.compact(other)
+      }
+    })
+
+    return { entries }
+  }
+
+  /**
+   * All query words must match; results are ranked by score and deduplicated per profile
+   */
+  search(index: DeviceIndex, query: string, filters: DeviceSearchFilters, limit = Infinity): DeviceSearchResult[] {
+    const queryTokens = this.tokenize(query)
+    const best = new Map<string, DeviceSearchResult>()
+
+    for (const entry of index.entries) {
+      if (!this.matchesFilters(entry, filters)) continue
+
+      const score = queryTokens.length ? this.scoreEntry(entry, queryTokens) : 1
+      if (score <= 0) continue
+
+      const current = best.get(entry.key)
+      if (current && current.score >= score) continue
+
+      // Matched through another title of the profile: show which one
+      const titleMatched = !queryTokens.length || this.scoreTokens(entry.titleTokens, entry.compactTitle, queryTokens) > 0
+      best.set(entry.key, {
+        device: entry.device,
+        score,
+        matchedTitle: titleMatched ? undefined : entry.otherTitles.find(title =>
+          this.scoreTokens(this.tokenize(title), this.compact(title), queryTokens) > 0
+        ),
+        vendor: entry.vendor,
+        imageTypes: entry.imageTypes
+      })
+    }
+
+    return [...best.values()]
+      .sort((a, b) => b.score - a.score || a.device.title.localeCompare(b.device.title, undefined, { numeric: true }))
+      .slice(0, limit)
+  }
+
+  /**
+   * Facet values with counts. Each facet is counted with the other facets applied,
+   * so selecting a vendor still shows the other vendors.
+   */
+  getFacets(index: DeviceIndex, query: string, filters: DeviceSearchFilters): DeviceFacets {
+    const queryTokens = this.tokenize(query)
+    const matching = queryTokens.length
+      ? index.entries.filter(entry => this.scoreEntry(entry, queryTokens) > 0)
+      : index.entries
+
+    const count = (facet: keyof DeviceSearchFilters, values: (entry: DeviceIndexEntry) => string[]): FacetValue[] => {
+      const others = { ...filters, [facet]: [] }
+      const counts = new Map<string, Set<string>>()
+      for (const entry of matching) {
+        if (!this.matchesFilters(entry, others)) continue
+        for (const value of values(entry)) {
+          const keys = counts.get(value) || new Set<string>()
+          keys.add(entry.key)
+          counts.set(value, keys)
+        }
+      }
+      return [...counts.entries()]
+        .map(([value, keys]) => ({ value, count: keys.size }))
+        .sort((a, b) => a.value.localeCompare(b.value))
+    }
+
+    return {
+      vendors: count('vendors', entry => entry.vendor ? [entry.vendor] : []),
+      targets: count('targets', entry => [entry.device.target]),
+      imageTypes: count('imageTypes', entry => entry.imageTypes)
+    }
+  }
+
+  /**
+   * Edit distance with adjacent transpositions (optimal string alignment)
+   */
+  distance(a: string, b: string): number {
+    const rows = a.length + 1
+    const cols = b.length + 1
+    const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)])
+    for (let j = 1; j < cols; j++) d[0][j] = j
+
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < cols; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1
+        d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+        }
+      }
+    }
+    return d[a.length][b.length]
+  }
+
+  tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9À-￿]+/).filter(Boolean)
+  }
+
+  private scoreEntry(entry: DeviceIndexEntry, queryTokens: string[]): number {
+    const titleScore = this.scoreTokens(entry.titleTokens, entry.compactTitle, queryTokens)
+    const otherScore = this.scoreTokens(
+      [...entry.titleTokens, ...entry.otherTokens],
+      `${entry.compactTitle} ${entry.compactOther}`,
+      queryTokens
+    ) * OTHER_FIELD_FACTOR
+    return Math.max(titleScore, otherScore)
+  }
+
+  private scoreTokens(tokens: string[], compact: string, queryTokens: string[]): number {
+    let total = 0
+    for (const queryToken of queryTokens) {
+      const score = this.scoreToken(tokens, compact, queryToken)
+      if (score === 0) return 0
+      total += score
+    }
+    return total
+  }
+
+  private scoreToken(tokens: string[], compact: string, queryToken: string): number {
+    let best = 0
+    const maxDistance = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0
+
+    for (const token of tokens) {
+      if (token === queryToken) return SCORE_EXACT
+      if (token.startsWith(queryToken)) {
+        best = Math.max(best, SCORE_PREFIX)
+        continue
+      }
+      if (maxDistance > 0 && best < SCORE_FUZZY && Math.abs(token.length - queryToken.length) <= maxDistance) {
+        if (this.distance(token, queryToken) <= maxDistance) best = SCORE_FUZZY
+      }
+    }
+
+    // Words typed without separators, e.g. "archerc7" or "tplink"
+    if (best < SCORE_SUBSTRING && compact.includes(queryToken)) {
+      best = SCORE_SUBSTRING
+    }
+    return best
+  }
+
+  private matchesFilters(entry: DeviceIndexEntry, filters: DeviceSearchFilters): boolean {
+    if (filters.vendors.length && !filters.vendors.includes(entry.vendor)) return false
+    if (filters.targets.length && !filters.targets.includes(entry.device.target)) return false
+    return filters.imageTypes.every(type => entry.imageTypes.includes(type))
+  }
+
+  private getKey(device: ProcessedDevice): string {
+    return `${device.target}/${device.id}`
+  }
+
+  private getVendor(device: ProcessedDevice): string {
+    const titles = device.profile.titles || []
+    const match = titles.find(title => title.vendor && device.title.startsWith(title.vendor)) || titles[0]
+    return match?.vendor?.trim() || ''
+  }
+
+  /**
+   * Image types grouped for filtering: all initramfs variants count as "initramfs"
+   */
+  private getImageTypes(device: ProcessedDevice): string[] {
+    const types = new Set<string>()
+    for (const image of device.profile.images || []) {
+      types.add(image.type.includes('initramfs') ? 'initramfs' : image.type)
+    }
+    return [...types].sort()
+  }
+
+  private compact(text: string): string {
+    return this.tokenize(text).join('')
+  }
+}
+
+export const deviceSearch = new DeviceSearchService()
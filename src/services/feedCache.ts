@@ -0,0 +1,146 @@
+// Persistent cache of parsed package feed indexes
+
+import { IndexedDbStore } from '@/services/indexedDb'
+import type { OpenWrtPackage } from '@/types/package'
+
+export interface FeedCacheEntry {
+  url: string
+  feedName: string
+  packages: OpenWrtPackage[] // Parsed index, so revisits skip re-parsing
+  etag?: string
+  lastModified?: string
+  size: number // Size of the downloaded index (bytes), used for the cache budget
+  storedAt: number // When the index was last downloaded
+  lastAccessed: number // Used for LRU eviction
+}
+
+// Bookkeeping of an entry, stored apart so hits and evictions never read or rewrite parsed packages
+export interface FeedCacheMeta {
+  url: string
+  size: number
+  storedAt: number
+  lastAccessed: number
+}
+
+export type FeedCacheData = Omit<FeedCacheEntry, 'size' | 'storedAt' | 'lastAccessed'>
+
+export interface FeedCacheStats {
+  entries: number
+  totalSize: number
+  maxSize: number
+}
+
+// Budget for raw index sizes, parsed data takes a similar amount of space
+const MAX_TOTAL_SIZE = 48 * 1024 * 1024
+const MAX_ENTRIES = 36 // Six feeds for six devices/versions
+
+export class FeedCacheService {
+  constructor(
+    private store = new IndexedDbStore<FeedCacheData>('ofs-feed-cache', 'feeds', 'url'),
+    private meta = new IndexedDbStore<FeedCacheMeta>('ofs-feed-cache-meta', 'feeds', 'url')
+  ) {}
+
+  isAvailable(): boolean {
+    return this.store.isAvailable()
+  }
+
+  /**
+   * Get a cached feed, null when missing or the cache is unavailable
+   */
+  async get(url: string): Promise<FeedCacheEntry | null> {
+    if (!this.isAvailable()) return null
+
+    try {
+      const meta = await this.meta.get(url)
+      if (!meta) return null
+
+      const data = await this.store.get(url)
+      if (!data) {
+        await this.meta.delete(url)
+        return null
+      }
+
+      await this.meta.put({ ...meta, lastAccessed: Date.now() })
+      return { ...data, ...meta }
+    } catch (error) {
+      console.warn(`Failed to read feed cache for ${url}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Store a freshly downloaded feed and evict old entries over the budget
+   */
+  async put(entry: Omit<FeedCacheEntry, 'storedAt' | 'lastAccessed'>): Promise<void> {
+    if (!this.isAvailable() || entry.size > MAX_TOTAL_SIZE) return
+
+    try {
+      const now = Date.now()
+      const { size, ...data } = entry
+      await this.store.put(data)
+      await this.meta.put({ url: entry.url, size, storedAt: now, lastAccessed: now })
+      await this.evict()
+    } catch (error) {
+      // Quota errors only cost us the cache, loading still works
+      console.warn(`Failed to cache feed ${entry.url}:`, error)
+    }
+  }
+
+  /**
+   * Mark a cached feed as revalidated without rewriting its packages
+   */
+  async touch(url: string): Promise<void> {
+    if (!this.isAvailable()) return
+
+    try {
+      const meta = await this.meta.get(url)
+      if (meta) {
+        const now = Date.now()
+        await this.meta.put({ ...meta, storedAt: now, lastAccessed: now })
+      }
+    } catch (error) {
+      console.warn(`Failed to update feed cache for ${url}:`, error)
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return
+    await this.store.clear()
+    await this.meta.clear()
+  }
+
+  async getStats(): Promise<FeedCacheStats> {
+    const entries = this.isAvailable() ? await this.meta.getAll() : []
+    return {
+      entries: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxSize: MAX_TOTAL_SIZE
+    }
+  }
+
+  /**
+   * Drop least recently used feeds until the cache fits the budget
+   */
+  private async evict(): Promise<void> {
+    const entries = await this.meta.getAll()
+    entries.sort((a, b) => b.lastAccessed - a.lastAccessed)
+
+    const kept = new Set<string>()
+    let totalSize = 0
+    for (const entry of entries) {
+      if (kept.size >= MAX_ENTRIES || totalSize + entry.size > MAX_TOTAL_SIZE) {
+        await this.meta.delete(entry.url)
+        continue
+      }
+      totalSize += entry.size
+      kept.add(entry.url)
+    }
+
+    // Feeds without metadata, e.g. after a failed write, are not counted, drop them too
+    for (const url of await this.store.getAllKeys()) {
+      if (!kept.has(url)) await this.store.delete(url)
+    }
+  }
+}
+
+export const feedCache = new FeedCacheService()
@@ -0,0 +1,148 @@
+// Loads package feeds through the parser worker, falling back to the main thread
+
+import {
+  packageManager,
+  type FeedFetchOptions,
+  type FeedFetchResult,
+  type FeedValidators
+} from '@/services/packageManager'
+import { feedCache } from '@/services/feedCache'
+import { mirrorService } from '@/services/mirror'
+import type { FeedWorkerRequest, FeedWorkerResponse } from '@/types/feedWorker'
+import type { OpenWrtPackage } from '@/types/package'
+
+interface PendingLoad {
+  resolve: (result: FeedFetchResult) => void
+  reject: (error: Error) => void
+  onProgress?: FeedFetchOptions['onProgress']
+}
+
+export class FeedLoaderService {
+  private worker: Worker | null = null
+  private workerFailed = false
+  private nextId = 1
+  private pending = new Map<number, PendingLoad>()
+
+  /**
+   * Fetch and parse a feed; aborting the signal cancels the download in the worker
+   */
+  load(feedUrl: string, feedName: string, cached?: FeedValidators, options: FeedFetchOptions = {}): Promise<FeedFetchResult> {
+    const worker = this.getWorker()
+    if (!worker) {
+      return packageManager.fetchFeed(feedUrl, feedName, cached, options)
+    }
+
+    const { signal, onProgress } = options
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Feed load aborted', 'AbortError'))
+    }
+
+    const id = this.nextId++
+    return new Promise<FeedFetchResult>((resolve, reject) => {
+      const onAbort = () => {
+        this.post({ type: 'cancel', id })
+        this.settle(id)
+        reject(new DOMException('Feed load aborted', 'AbortError'))
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(result)
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        },
+        onProgress
+      })
+      this.post({ type: 'load', id, feedUrl, feedName, cached, mirrorUrls: mirrorService.getCandidates(feedUrl) })
+    })
+  }
+
+  /**
+   * Load a feed through the offline cache, falling back to the cached copy when the mirror fails
+   */
+  async loadCachedPackages(feedUrl: string, feedName: string, signal?: AbortSignal): Promise<OpenWrtPackage[]> {
+    const cached = await feedCache.get(feedUrl)
+    try {
+      const result = await this.load(feedUrl, feedName, cached || undefined, { signal })
+      if (result.notModified) {
+        await feedCache.touch(feedUrl)
+        return cached?.packages || []
+      }
+
+      const packages = result.packages || []
+      await feedCache.put({
+        url: feedUrl,
+        feedName,
+        packages,
+        etag: result.etag,
+        lastModified: result.lastModified,
+        size: result.size
+      })
+      return packages
+    } catch (error) {
+      if (cached && !signal?.aborted) return cached.packages
+      throw error
+    }
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker
+    if (this.workerFailed || typeof Worker === 'undefined') return null
+
+    try {
+      this.worker = new Worker(new URL('../workers/feedParser.worker.ts', import.meta.url), { type: 'module' })
+      this.worker.onmessage = (event: MessageEvent<FeedWorkerResponse>) => this.handleMessage(event.data)
+      this.worker.onerror = (event) => {
+        // A broken worker fails every pending load; later loads run on the main thread
+        console.error('Feed parser worker failed:', event.message)
+        this.workerFailed = true
+        this.worker?.terminate()
+        this.worker = null
+        for (const [id, load] of this.pending) {
+          this.settle(id)
+          load.reject(new Error(event.message || 'Feed parser worker failed'))
+        }
+      }
+      return this.worker
+    } catch (error) {
+      console.warn('Feed parser worker unavailable, parsing on the main thread:', error)
+      this.workerFailed = true
+      return null
+    }
+  }
+
+  private handleMessage(message: FeedWorkerResponse) {
+    const load = this.pending.get(message.id)
+    if (!load) return // Cancelled load
+
+    switch (message.type) {
+      case 'progress':
+        load.onProgress?.(message.progress)
+        break
+      case 'result':
+        this.settle(message.id)
+        load.resolve(message.result)
+        break
+      case 'error':
+        this.settle(message.id)
+        load.reject(message.aborted
+          ? new DOMException(message.message, 'AbortError')
+          : new Error(message.message))
+        break
+    }
+  }
+
+  private settle(id: number) {
+    this.pending.delete(id)
+  }
+
+  private post(message: FeedWorkerRequest) {
+    this.worker?.postMessage(message)
+  }
+}
+
+export const feedLoader = new FeedLoaderService()
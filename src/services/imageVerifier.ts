@@ -0,0 +1,140 @@
+// Verifies firmware images against their published SHA-256 checksums
+
+import { Sha256 } from '@/services/sha256'
+
+export interface VerifyProgress {
+  loaded: number
+  total?: number
+}
+
+export interface VerifyOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: VerifyProgress) => void
+}
+
+export interface ImageVerifyResult {
+  match: boolean
+  expected: string
+  actual: string
+  size: number
+  method: 'webcrypto' | 'stream'
+}
+
+// WebCrypto needs the whole image in memory; larger images are hashed chunk by chunk
+const WEBCRYPTO_MAX_SIZE = 256 * 1024 * 1024
+
+export class ImageVerifierService {
+  /**
+   * Download an image and compare its hash with the expected checksum
+   */
+  async verifyUrl(url: string, expected: string, options: VerifyOptions = {}): Promise<ImageVerifyResult> {
+    const response = await fetch(url, { signal: options.signal, cache: 'no-store' })
+    if (!response.ok || !response.body) {
+      throw new Error(`下载映像失败: HTTP ${response.status}`)
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || undefined
+    return this.verifyStream(response.body, total, expected, options)
+  }
+
+  /**
+   * Hash a local file, e.g. one dropped onto the page, and compare it with the expected checksum
+   */
+  async verifyFile(file: Blob, expected: string, options: VerifyOptions = {}): Promise<ImageVerifyResult> {
+    return this.verifyStream(file.stream(), file.size, expected, options)
+  }
+
+  /**
+   * Accepts plain hex as well as "sha256sum" lines ("<hash>  <file>")
+   */
+  normalizeHash(value: string): string {
+    return value.trim().split(/\s+/)[0].toLowerCase()
+  }
+
+  isValidHash(value: string): boolean {
+    return /^[0-9a-f]{64}$/.test(this.normalizeHash(value))
+  }
+
+  private async verifyStream(
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    expected: string,
+    options: VerifyOptions
+  ): Promise<ImageVerifyResult> {
+    const useWebCrypto = !!globalThis.crypto?.subtle && total !== undefined && total <= WEBCRYPTO_MAX_SIZE
+    const { digest, size } = useWebCrypto
+      ? await this.hashWithWebCrypto(stream, total, options)
+      : await this.hashIncremental(stream, total, options)
+
+    const normalized = this.normalizeHash(expected)
+    return {
+      match: digest === normalized,
+      expected: normalized,
+      actual: digest,
+      size,
+      method: useWebCrypto ? 'webcrypto' : 'stream'
+    }
+  }
+
+  private async hashWithWebCrypto(
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    options: VerifyOptions
+  ): Promise<{ digest: string; size: number }> {
+    const chunks: Uint8Array[] = []
+    const size = await this.readStream(stream, total, options, chunk => chunks.push(chunk))
+
+    const bytes = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+
+    const hash = await crypto.subtle.digest('SHA-256', bytes)
+    return { digest: this.toHex(new Uint8Array(hash)), size }
+  }
+
+  private async hashIncremental(
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    options: VerifyOptions
+  ): Promise<{ digest: string; size: number }> {
+    const hasher = new Sha256()
+    const size = await this.readStream(stream, total, options, chunk => hasher.update(chunk))
+    return { digest: hasher.digest(), size }
+  }
+
+  private async readStream(
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    options: VerifyOptions,
+    onChunk: (chunk: Uint8Array) => void
+  ): Promise<number> {
+    const { signal, onProgress } = options
+    const reader = stream.getReader()
+    let loaded = 0
+
+    try {
+      for (;;) {
+        signal?.throwIfAborted()
+        const { done, value } = await reader.read()
+        if (done) break
+        onChunk(value)
+        loaded += value.byteLength
+        onProgress?.({ loaded, total })
+      }
+    } finally {
+      // Stop the download when aborted or failed
+      reader.cancel().catch(() => {})
+    }
+
+    return loaded
+  }
+
+  private toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+}
+
+export const imageVerifier = new ImageVerifierService()
@@ -0,0 +1,97 @@
+// Minimal promise wrapper around a single IndexedDB object store
+
+export class IndexedDbStore<T> {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string,
+    private readonly keyPath: string,
+    private readonly version = 1
+  ) {}
+
+  /**
+   * IndexedDB is missing in some private browsing modes and in tests
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const request = await this.withStore('readonly', store => store.get(key))
+    return request as T | undefined
+  }
+
+  async getAll(): Promise<T[]> {
+    const result = await this.withStore('readonly', store => store.getAll())
+    return (result as T[]) || []
+  }
+
+  /**
+   * Keys only, without reading the stored values
+   */
+  async getAllKeys(): Promise<string[]> {
+    const result = await this.withStore('readonly', store => store.getAllKeys())
+    return (result as string[]) || []
+  }
+
+  async put(value: T): Promise<void> {
+    await this.withStore('readwrite', store => store.put(value))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.withStore('readwrite', store => store.clear())
+  }
+
+  private async withStore(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode)
+      const request = action(transaction.objectStore(this.storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error || request.error)
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'))
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('IndexedDB is not available'))
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.version)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: this.keyPath })
+          }
+        }
+        request.onsuccess = () => {
+          const db = request.result
+          // Another tab upgraded the schema, reopen on next access
+          db.onversionchange = () => {
+            db.close()
+            this.dbPromise = null
+          }
+          resolve(db)
+        }
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+        request.onblocked = () => {
+          this.dbPromise = null
+          reject(new Error(`IndexedDB ${this.dbName} is blocked by another tab`))
+        }
+      })
+    }
+
+    return this.dbPromise
+  }
+}
@@ -0,0 +1,240 @@
+// Download mirror selection, latency probing and failover for image and feed URLs
+
+import { config } from '@/config'
+
+export interface Mirror {
+  name: string
+  url: string
+}
+
+export interface MirrorStatus extends Mirror {
+  latency: number | null // Round trip of the last probe (ms), null when unreachable or not probed
+  probed: boolean
+  failing: boolean // Recently failed a request, tried last until the cooldown ends
+}
+
+const STORAGE_KEY = 'openwrt-mirror'
+const FAILURE_COOLDOWN = 5 * 60 * 1000
+const PROBE_TIMEOUT = 5000
+
+export class MirrorService {
+  private mirrors: Mirror[]
+  private latencies = new Map<string, number | null>()
+  private failures = new Map<string, number>()
+  private selectedUrl: string | null = null // null selects the fastest mirror automatically
+  private listeners = new Set<() => void>()
+
+  constructor(mirrors?: Mirror[]) {
+    this.mirrors = this.normalizeMirrors(mirrors ?? [
+      { name: config.brand_name, url: config.image_url },
+      ...(config.mirrors || [])
+    ])
+    this.selectedUrl = this.loadSelection()
+  }
+
+  getMirrors(): Mirror[] {
+    return [...this.mirrors]
+  }
+
+  getStatus(): MirrorStatus[] {
+    return this.mirrors.map(mirror => ({
+      ...mirror,
+      latency: this.latencies.get(mirror.url) ?? null,
+      probed: this.latencies.has(mirror.url),
+      failing: this.isFailing(mirror.url)
+    }))
+  }
+
+  getSelectedUrl(): string | null {
+    return this.selectedUrl
+  }
+
+  /**
+   * Pin a mirror, or pass null to pick the fastest one
+   */
+  select(url: string | null) {
+    const mirror = url ? this.findMirror(url) : undefined
+    this.selectedUrl = mirror?.url ?? null
+    this.failures.delete(this.selectedUrl || '')
+    this.saveSelection()
+    this.notify()
+  }
+
+  getPreferred(): Mirror {
+    return this.getOrder()[0]
+  }
+
+  /**
+   * Mirrors in the order requests try them: the pinned mirror, then working mirrors by latency
+   */
+  getOrder(): Mirror[] {
+    const rank = (mirror: Mirror) => {
+      if (mirror.url === this.selectedUrl && !this.isFailing(mirror.url)) return -1
+      const latency = this.latencies.get(mirror.url)
+      // Unprobed mirrors keep their configured order, unreachable ones go last
+      const base = latency === undefined ? PROBE_TIMEOUT : latency === null ? PROBE_TIMEOUT * 2 : latency
+      return this.isFailing(mirror.url) ? base + PROBE_TIMEOUT * 4 : base
+    }
+
+    return this.mirrors
+      .map((mirror, index) => ({ mirror, index, rank: rank(mirror) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map(item => item.mirror)
+  }
+
+  /**
+   * The mirror a URL belongs to, if any
+   */
+  findMirror(url: string): Mirror | undefined {
+    return this.mirrors
+      .filter(mirror => url === mirror.url || url.startsWith(`${mirror.url}/`))
+      .sort((a, b) => b.url.length - a.url.length)[0]
+  }
+
+  /**
+   * Point a URL on any known mirror at the preferred mirror
+   */
+  rewrite(url: string): string {
+    return this.getCandidates(url)[0]
+  }
+
+  /**
+   * The same file on every mirror, in failover order. URLs outside the mirror list are returned as is.
+   */
+  getCandidates(url: string): string[] {
+    const source = this.findMirror(url)
+    if (!source) return [url]
+
+    const path = url.slice(source.url.length)
+    return this.getOrder().map(mirror => `${mirror.url}${path}`)
+  }
+
+  /**
+   * Fetch a file, moving on to the next mirror on network errors and server errors.
+   * 404 is returned as is: optional files would otherwise be requested from every mirror.
+   */
+  async fetch(url: string, init: RequestInit = {}, candidates: string[] = this.getCandidates(url)): Promise<Response> {
+    let lastError: unknown = new Error(`No mirror available for ${url}`)
+
+    for (const [index, candidate] of candidates.entries()) {
+      const isLast = index === candidates.length - 1
+      try {
+        const response = await fetch(candidate, init)
+        if (isLast || !this.shouldFailover(response.status)) {
+          if (response.ok) this.clearFailure(candidate)
+          return response
+        }
+        response.body?.cancel().catch(() => {})
+        lastError = new Error(`HTTP ${response.status}`)
+      } catch (error) {
+        if (init.signal?.aborted) throw error
+        if (isLast) {
+          this.markFailed(candidate)
+          throw error
+        }
+        lastError = error
+      }
+
+      console.warn(`Mirror request failed (${lastError instanceof Error ? lastError.message : lastError}), trying next mirror: ${candidate}`)
+      this.markFailed(candidate)
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Measure the round trip to a mirror; null when it does not answer in time
+   */
+  async probe(mirror: Mirror): Promise<number | null> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT)
+    const start = performance.now()
+
+    try {
+      const response = await fetch(`${mirror.url}/.versions.json`, {
+        method: 'HEAD',
+        cache: 'no-store',
+        signal: controller.signal
+      })
+      // Any answer proves the mirror is reachable, even when it lacks .versions.json
+      const latency = response.status < 500 ? Math.round(performance.now() - start) : null
+      this.latencies.set(mirror.url, latency)
+      return latency
+    } catch {
+      this.latencies.set(mirror.url, null)
+      return null
+    } finally {
+      clearTimeout(timer)
+      this.notify()
+    }
+  }
+
+  async probeAll(): Promise<MirrorStatus[]> {
+    await Promise.all(this.mirrors.map(mirror => this.probe(mirror)))
+    return this.getStatus()
+  }
+
+  /**
+   * Called whenever the preferred mirror may have changed
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private shouldFailover(status: number): boolean {
+    return status >= 500 || status === 403 || status === 429
+  }
+
+  private markFailed(url: string) {
+    const mirror = this.findMirror(url)
+    if (!mirror) return
+    this.failures.set(mirror.url, Date.now())
+    this.notify()
+  }
+
+  private clearFailure(url: string) {
+    const mirror = this.findMirror(url)
+    if (mirror && this.failures.delete(mirror.url)) {
+      this.notify()
+    }
+  }
+
+  private isFailing(url: string): boolean {
+    const failedAt = this.failures.get(url)
+    return failedAt !== undefined && Date.now() - failedAt < FAILURE_COOLDOWN
+  }
+
+  private normalizeMirrors(mirrors: Mirror[]): Mirror[] {
+    const seen = new Set<string>()
+    return mirrors
+      .map(mirror => ({ name: mirror.name, url: mirror.url.replace(/\/+$/, '') }))
+      .filter(mirror => {
+        if (!mirror.url || seen.has(mirror.url)) return false
+        seen.add(mirror.url)
+        return true
+      })
+  }
+
+  private loadSelection(): string | null {
+    // Workers have no localStorage; they get explicit candidate lists instead
+    if (typeof localStorage === 'undefined') return null
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored && this.mirrors.some(mirror => mirror.url === stored) ? stored : null
+  }
+
+  private saveSelection() {
+    if (typeof localStorage === 'undefined') return
+    if (this.selectedUrl) {
+      localStorage.setItem(STORAGE_KEY, this.selectedUrl)
+    } else {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const mirrorService = new MirrorService()
@@ -0,0 +1,180 @@
+// Persistent module sources and parsed module archives, keyed by revision
+
+import { IndexedDbStore } from '@/services/indexedDb'
+import { Sha256 } from '@/services/sha256'
+import type { Module, ModuleSource } from '@/types/module'
+
+// Sources the user added, restored on reload. Modules live in the archive cache.
+export type ModuleSourceRecord = Omit<ModuleSource, 'modules' | 'fromCache'> & {
+  order: number
+}
+
+export interface ModuleArchiveEntry {
+  key: string // "<url>@<revision>"
+  url: string
+  ref: string
+  revision: string
+  modules: Module[]
+  size: number // Archive size (bytes)
+  storedAt: number
+  lastAccessed: number // Used for LRU eviction of archives no source refers to
+}
+
+// Archives no source refers to are kept for offline re-adding, up to this many
+const MAX_UNUSED_ENTRIES = 10
+
+export class ModuleCacheService {
+  // Saves run one after another, so an older source list cannot land after a newer one
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private sources = new IndexedDbStore<ModuleSourceRecord>('ofs-module-sources', 'sources', 'id'),
+    private archives = new IndexedDbStore<ModuleArchiveEntry>('ofs-module-archives', 'archives', 'key')
+  ) {}
+
+  isAvailable(): boolean {
+    return this.sources.isAvailable()
+  }
+
+  getArchiveKey(url: string, revision: string): string {
+    return `${url}@${revision}`
+  }
+
+  /**
+   * Revision of an archive without one from the remote: its content hash
+   */
+  async hashArchive(blob: Blob): Promise<string> {
+    const hasher = new Sha256()
+    hasher.update(new Uint8Array(await blob.arrayBuffer()))
+    return `sha256:${hasher.digest()}`
+  }
+
+  async loadSources(): Promise<ModuleSourceRecord[]> {
+    if (!this.isAvailable()) return []
+
+    try {
+      const records = await this.sources.getAll()
+      return records.sort((a, b) => a.order - b.order)
+    } catch (error) {
+      console.warn('Failed to load module sources:', error)
+      return []
+    }
+  }
+
+  /**
+   * Replace the stored source list
+   */
+  async saveSources(sources: ModuleSource[]): Promise<void> {
+    if (!this.isAvailable()) return
+
+    // Records are taken now, the list may change before a queued save runs
+    const records = sources.map((source, order) => this.toRecord(source, order))
+    const save = this.saveQueue.then(() => this.writeSources(records))
+    this.saveQueue = save
+    return save
+  }
+
+  async getArchive(url: string, revision: string): Promise<ModuleArchiveEntry | null> {
+    if (!this.isAvailable()) return null
+
+    try {
+      const entry = await this.archives.get(this.getArchiveKey(url, revision))
+      if (!entry) return null
+
+      await this.archives.put({ ...entry, lastAccessed: Date.now() })
+      return entry
+    } catch (error) {
+      console.warn(`Failed to read module cache for ${url}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Newest cached archive of a ref, for adding a source while offline
+   */
+  async findLatestArchive(url: string, ref: string): Promise<ModuleArchiveEntry | null> {
+    if (!this.isAvailable()) return null
+
+    try {
+      const entries = (await this.archives.getAll()).filter(entry => entry.url === url && entry.ref === ref)
+      return entries.sort((a, b) => b.storedAt - a.storedAt)[0] || null
+    } catch (error) {
+      console.warn(`Failed to read module cache for ${url}:`, error)
+      return null
+    }
+  }
+
+  async putArchive(entry: Omit<ModuleArchiveEntry, 'key' | 'storedAt' | 'lastAccessed'>): Promise<void> {
+    if (!this.isAvailable()) return
+
+    try {
+      const now = Date.now()
+      await this.archives.put({
+        ...entry,
+        // Modules may come from reactive state, store plain data
+        modules: JSON.parse(JSON.stringify(entry.modules)),
+        key: this.getArchiveKey(entry.url, entry.revision),
+        storedAt: now,
+        lastAccessed: now
+      })
+      await this.evict()
+    } catch (error) {
+      // Quota errors only cost us the cache
+      console.warn(`Failed to cache module archive ${entry.url}:`, error)
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return
+    await this.archives.clear()
+  }
+
+  /**
+   * Drop least recently used archives that no stored source refers to
+   */
+  private async evict(): Promise<void> {
+    const used = new Set(
+      (await this.sources.getAll())
+        .filter(record => record.revision)
+        .map(record => this.getArchiveKey(record.url, record.revision!))
+    )
+    const unused = (await this.archives.getAll())
+      .filter(entry => !used.has(entry.key))
+      .sort((a, b) => b.lastAccessed - a.lastAccessed)
+
+    for (const entry of unused.slice(MAX_UNUSED_ENTRIES)) {
+      await this.archives.delete(entry.key)
+    }
+  }
+
+  private async writeSources(records: ModuleSourceRecord[]): Promise<void> {
+    try {
+      const stored = await this.sources.getAll()
+      const ids = new Set(records.map(record => record.id))
+      for (const record of stored) {
+        if (!ids.has(record.id)) await this.sources.delete(record.id)
+      }
+      for (const record of records) {
+        await this.sources.put(record)
+      }
+    } catch (error) {
+      console.warn('Failed to save module sources:', error)
+    }
+  }
+
+  private toRecord(source: ModuleSource, order: number): ModuleSourceRecord {
+    return {
+      id: source.id,
+      name: source.name,
+      url: source.url,
+      provider: source.provider,
+      ref: source.ref,
+      revision: source.revision,
+      lastUpdated: source.lastUpdated,
+      lastChecked: source.lastChecked,
+      order
+    }
+  }
+}
+
+export const moduleCache = new ModuleCacheService()
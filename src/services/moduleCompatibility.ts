@@ -0,0 +1,187 @@
+// Module dependencies, conflicts and device compatibility (requires, conflicts, targets, versions, arch)
+
+import { moduleValidationService, type ValidationLocale } from '@/services/moduleValidation'
+import type { Module, ModuleDefinition, ModuleSource } from '@/types/module'
+
+export interface ModuleDeviceContext {
+  target: string // target/subtarget
+  version: string
+  arch: string // arch_packages of the profile
+}
+
+export interface ModuleRef {
+  sourceId: string
+  moduleId: string
+}
+
+export interface RequirementResult {
+  modules: ModuleRef[] // Required modules, dependencies first, the module itself excluded
+  missing: string[] // Entries of `requires` no source provides
+}
+
+export class ModuleCompatibilityService {
+  /**
+   * Reasons the module cannot be used with the device and version, empty when it can
+   */
+  checkDevice(definition: ModuleDefinition, context: ModuleDeviceContext, locale?: ValidationLocale): string[] {
+    const issues: string[] = []
+
+    if (definition.targets?.length && !definition.targets.some(pattern => this.matchesTarget(pattern, context.target))) {
+      issues.push(moduleValidationService.message('target', { targets: definition.targets.join(', ') }, locale))
+    }
+
+    if (definition.arch?.length && !definition.arch.some(pattern => this.matchesPattern(pattern, context.arch))) {
+      issues.push(moduleValidationService.message('arch', { arch: definition.arch.join(', ') }, locale))
+    }
+
+    if (context.version) {
+      if (definition.min_version && this.compareReleases(context.version, String(definition.min_version)) < 0) {
+        issues.push(moduleValidationService.message('min-version', { version: String(definition.min_version) }, locale))
+      }
+      // "24.10" as maximum includes all 24.10.x releases
+      const max = definition.max_version && String(definition.max_version)
+      const branchMax = max && /^\d+(\.\d+)?$/.test(max) ? `${max}-SNAPSHOT` : max
+      if (branchMax && this.compareReleases(context.version, branchMax) > 0) {
+        issues.push(moduleValidationService.message('max-version', { version: String(definition.max_version) }, locale))
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * "ramips" matches all subtargets, "ramips/mt7621" one, "*" works as a wildcard
+   */
+  matchesTarget(pattern: string, target: string): boolean {
+    return this.matchesPattern(pattern, target) || (!pattern.includes('/') && target.startsWith(`${pattern}/`))
+  }
+
+  /**
+   * Compare OpenWrt releases: 23.05.5 < 24.10.0-rc1 < 24.10.0 < 24.10-SNAPSHOT < SNAPSHOT
+   */
+  compareReleases(a: string, b: string): number {
+    const left = this.parseRelease(a)
+    const right = this.parseRelease(b)
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] ?? 0) - (right[i] ?? 0)
+      if (diff !== 0 && !Number.isNaN(diff)) return diff
+    }
+    return 0
+  }
+
+  /**
+   * Find a module named in requires/conflicts: "<module id>" in the same source first,
+   * then in any source, or "<source id>:<module id>"
+   */
+  findModule(sources: ModuleSource[], fromSourceId: string, name: string): { source: ModuleSource; module: Module } | null {
+    const separator = name.lastIndexOf(':')
+    if (separator !== -1) {
+      const source = sources.find(item => item.id === name.slice(0, separator))
+      const module = source?.modules.find(item => item.id === name.slice(separator + 1))
+      return source && module ? { source, module } : null
+    }
+
+    const ordered = [
+      ...sources.filter(source => source.id === fromSourceId),
+      ...sources.filter(source => source.id !== fromSourceId)
+    ]
+    for (const source of ordered) {
+      const module = source.modules.find(item => item.id === name)
+      if (module) return { source, module }
+    }
+    return null
+  }
+
+  /**
+   * Modules a module requires, recursively
+   */
+  resolveRequires(sources: ModuleSource[], ref: ModuleRef): RequirementResult {
+    const modules: ModuleRef[] = []
+    const missing: string[] = []
+    const visited = new Set([this.getKey(ref)])
+
+    const visit = (current: ModuleRef) => {
+      const module = sources.find(source => source.id === current.sourceId)?.modules.find(item => item.id === current.moduleId)
+      for (const name of module?.definition.requires || []) {
+        const found = this.findModule(sources, current.sourceId, name)
+        if (!found) {
+          if (!missing.includes(name)) missing.push(name)
+          continue
+        }
+
+        const required = { sourceId: found.source.id, moduleId: found.module.id }
+        if (visited.has(this.getKey(required))) continue
+        visited.add(this.getKey(required))
+
+        visit(required)
+        modules.push(required)
+      }
+    }
+
+    visit(ref)
+    return { modules, missing }
+  }
+
+  /**
+   * Why two modules cannot be installed together: declared conflicts (either way),
+   * or a package one installs and the other removes. Shared files are not a conflict,
+   * the module selected last wins (see moduleOverlay).
+   */
+  findConflicts(sources: ModuleSource[], a: ModuleRef, b: ModuleRef, locale?: ValidationLocale): string[] {
+    const moduleA = this.getModule(sources, a)
+    const moduleB = this.getModule(sources, b)
+    if (!moduleA || !moduleB) return []
+
+    const reasons: string[] = []
+    const declares = (from: ModuleRef, module: Module, other: ModuleRef) => {
+      return (module.definition.conflicts || []).some(name => {
+        const found = this.findModule(sources, from.sourceId, name)
+        return found && found.source.id === other.sourceId && found.module.id === other.moduleId
+      })
+    }
+    if (declares(a, moduleA, b) || declares(b, moduleB, a)) {
+      reasons.push(moduleValidationService.message('conflict', { name: moduleA.definition.name, other: moduleB.definition.name }, locale))
+    }
+
+    const packagesA = moduleA.definition.packages || []
+    const packagesB = moduleB.definition.packages || []
+    for (const name of packagesA) {
+      const opposite = name.startsWith('-') ? name.slice(1) : `-${name}`
+      if (packagesB.includes(opposite)) {
+        const installed = name.startsWith('-') ? opposite : name
+        reasons.push(moduleValidationService.message('package-conflict', { package: installed }, locale))
+      }
+    }
+
+    return reasons
+  }
+
+  getKey(ref: ModuleRef): string {
+    return `${ref.sourceId}:${ref.moduleId}`
+  }
+
+  private getModule(sources: ModuleSource[], ref: ModuleRef): Module | undefined {
+    return sources.find(source => source.id === ref.sourceId)?.modules.find(module => module.id === ref.moduleId)
+  }
+
+  private matchesPattern(pattern: string, value: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`)
+    return regex.test(value)
+  }
+
+  private parseRelease(version: string): number[] {
+    const [base, ...suffixes] = version.trim().toUpperCase().split('-')
+    if (base === 'SNAPSHOT') return [Infinity]
+
+    const parts = base.split('.').map(part => parseInt(part, 10) || 0)
+    const suffix = suffixes.join('-')
+    if (suffix === 'SNAPSHOT') return [...parts, Infinity]
+
+    // Release candidates sort before the release
+    const rc = suffix.match(/^RC(\d+)$/)
+    if (rc) return [...parts, ...Array(Math.max(0, 3 - parts.length)).fill(0), -1, parseInt(rc[1], 10)]
+    return parts
+  }
+}
+
+export const moduleCompatibilityService = new ModuleCompatibilityService()
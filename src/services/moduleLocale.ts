@@ -0,0 +1,43 @@
+// Picks the language of module metadata (descriptions, READMEs, parameter texts)
+
+import type { LocalizedText } from '@/types/module'
+
+export class ModuleLocaleService {
+  /**
+   * "zh_CN", "zh-CN" and "zh-cn" are the same language
+   */
+  normalize(language: string): string {
+    return language.trim().replace(/_/g, '-').toLowerCase()
+  }
+
+  /**
+   * Languages to try in order: exact, base language, English
+   */
+  getLanguageChain(language: string): string[] {
+    const exact = this.normalize(language)
+    const base = exact.split('-')[0]
+    return [...new Set([exact, base, 'en'].filter(Boolean))]
+  }
+
+  /**
+   * Text for the language from a per-language map (or a plain string), falling back
+   * to the base language, English, then whatever the module provides
+   */
+  pick(text: LocalizedText | undefined, language: string): string {
+    if (text === undefined || text === null) return ''
+    if (typeof text !== 'object') return String(text)
+
+    const entries = Object.entries(text).map(([key, value]) => [this.normalize(key), value] as const)
+    for (const candidate of this.getLanguageChain(language)) {
+      const match = entries.find(([key]) => key === candidate)
+      if (match?.[1]) return String(match[1])
+    }
+
+    // A regional variant of the base language ("zh-tw" for "zh") beats an unrelated one
+    const base = this.normalize(language).split('-')[0]
+    const regional = entries.find(([key, value]) => key.startsWith(`${base}-`) && value)
+    return String(regional?.[1] ?? entries.find(([, value]) => value)?.[1] ?? '')
+  }
+}
+
+export const moduleLocale = new ModuleLocaleService()
@@ -0,0 +1,190 @@
+// Merge preview of the overlay filesystem built from selected modules and the uci-defaults script
+
+import type { Module, ModuleSelection, ModuleSource } from '@/types/module'
+
+export type OverlayContributorKind = 'file' | 'parameterized' | 'download' | 'defaults'
+
+export interface OverlayContributor {
+  kind: OverlayContributorKind
+  name: string // Module name, or the uci-defaults script
+  sourceId?: string
+  moduleId?: string
+}
+
+export interface OverlayEntry {
+  path: string // Path in the image, e.g. /etc/config/network
+  winner: OverlayContributor
+  overridden: OverlayContributor[] // Earlier contributors the winner replaces
+}
+
+export interface OverlayNode {
+  name: string
+  path: string
+  children: OverlayNode[]
+  entry?: OverlayEntry // Files only
+}
+
+export interface UciOverlap {
+  section: string // config.section, or config.@type for anonymous sections
+  parties: string[] // Modules and the uci-defaults script touching the section
+}
+
+export interface OverlayPreview {
+  entries: OverlayEntry[]
+  tree: OverlayNode
+  collisions: OverlayEntry[]
+  uciOverlaps: UciOverlap[]
+}
+
+export interface OverlayModule {
+  module: Module
+  source: ModuleSource
+  selection: ModuleSelection
+}
+
+// ASU writes the defaults script of the request here, after the module files
+export const DEFAULTS_PATH = '/etc/uci-defaults/99-asu-defaults'
+export const DEFAULTS_NAME = 'uci-defaults 脚本'
+
+const UCI_COMMANDS = 'set|add_list|del_list|delete|rename|reorder|add'
+
+export class ModuleOverlayService {
+  /**
+   * Order ASU applies modules in: grouped per source, sources in the order they were first selected,
+   * modules of a source in selection order. Build requests are assembled in this order too.
+   */
+  applyOrder<T extends OverlayModule>(modules: T[]): T[] {
+    const groups = new Map<string, T[]>()
+    for (const item of modules) {
+      if (!groups.has(item.source.id)) groups.set(item.source.id, [])
+      groups.get(item.source.id)!.push(item)
+    }
+    return Array.from(groups.values()).flat()
+  }
+
+  /**
+   * Build the overlay modules write to the image. Modules are applied in request order,
+   * a later module replaces the files of an earlier one, the uci-defaults script comes last.
+   */
+  buildPreview(modules: OverlayModule[], defaults = ''): OverlayPreview {
+    const entries = new Map<string, OverlayEntry>()
+    const add = (path: string, contributor: OverlayContributor) => {
+      const existing = entries.get(path)
+      entries.set(path, existing
+        ? { path, winner: contributor, overridden: [...existing.overridden, existing.winner] }
+        : { path, winner: contributor, overridden: [] })
+    }
+
+    // Sections each party touches, for the UCI overlap check
+    const sections = new Map<string, Set<string>>()
+    const touch = (party: string, touched: string[]) => {
+      for (const section of touched) {
+        if (!sections.has(section)) sections.set(section, new Set())
+        sections.get(section)!.add(party)
+      }
+    }
+
+    for (const { module, source } of this.applyOrder(modules)) {
+      const name = module.definition.name || module.id
+      const base = { name, sourceId: source.id, moduleId: module.id }
+      const parameterized = new Set((module.definition.parameterized_files || []).map(file => file.file))
+
+      for (const file of module.files) {
+        const path = this.toImagePath(file.path)
+        if (!path) continue
+
+        add(path, { ...base, kind: parameterized.has(file.path) ? 'parameterized' : 'file' })
+
+        if (path.startsWith('/etc/config/')) {
+          touch(name, this.getConfigSections(path.slice('/etc/config/'.length), file.content))
+        } else if (path.startsWith('/etc/uci-defaults/')) {
+          touch(name, this.getScriptSections(file.content))
+        }
+      }
+
+      for (const download of module.definition.downloads || []) {
+        const path = this.toImagePath(download.path)
+        if (path) add(path, { ...base, kind: 'download' })
+      }
+    }
+
+    if (defaults.trim()) {
+      add(DEFAULTS_PATH, { kind: 'defaults', name: DEFAULTS_NAME })
+      touch(DEFAULTS_NAME, this.getScriptSections(defaults))
+    }
+
+    const sorted = [...entries.values()].sort((a, b) => a.path.localeCompare(b.path))
+    return {
+      entries: sorted,
+      tree: this.buildTree(sorted),
+      collisions: sorted.filter(entry => entry.overridden.length > 0),
+      uciOverlaps: [...sections.entries()]
+        .filter(([, parties]) => parties.size > 1)
+        .map(([section, parties]) => ({ section, parties: [...parties] }))
+        .sort((a, b) => a.section.localeCompare(b.section))
+    }
+  }
+
+  /**
+   * Sections a UCI config file declares: "config interface 'lan'" is network.lan,
+   * unnamed ones are network.@type
+   */
+  getConfigSections(config: string, content: string): string[] {
+    const found = new Set<string>()
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*config\s+(['"]?)([\w-]+)\1(?:\s+(['"]?)([\w-]+)\3)?\s*$/)
+      if (match) found.add(`${config}.${match[4] || `@${match[2]}`}`)
+    }
+    return [...found]
+  }
+
+  /**
+   * Sections a shell script changes through uci, including "uci batch" input
+   */
+  getScriptSections(script: string): string[] {
+    const found = new Set<string>()
+    const command = new RegExp(`(?:^|[\\s;|&(])(?:uci\\s+(?:-q\\s+)?)?(${UCI_COMMANDS})\\s+['"]?([\\w-]+)\\.(@?[\\w-]+)(?:\\[-?\\d+\\])?`, 'g')
+    const add = new RegExp(`(?:^|[\\s;|&(])(?:uci\\s+(?:-q\\s+)?)?add\\s+['"]?([\\w-]+)['"]?\\s+['"]?([\\w-]+)`, 'g')
+
+    for (const rawLine of script.split('\n')) {
+      const line = rawLine.replace(/#.*$/, '')
+      // Only lines that run uci, or uci batch input ("set ..." alone on a line)
+      if (!/\buci\b/.test(line) && !new RegExp(`^\\s*(${UCI_COMMANDS})\\s`).test(line)) continue
+
+      for (const match of line.matchAll(command)) {
+        found.add(`${match[2]}.${match[3]}`)
+      }
+      for (const match of line.matchAll(add)) {
+        if (!match[1].includes('.')) found.add(`${match[1]}.@${match[2]}`)
+      }
+    }
+    return [...found]
+  }
+
+  // Only files below files/ end up in the image
+  private toImagePath(path: string): string | null {
+    if (!path.startsWith('files/')) return null
+    return path.slice('files'.length)
+  }
+
+  private buildTree(entries: OverlayEntry[]): OverlayNode {
+    const root: OverlayNode = { name: '/', path: '/', children: [] }
+    for (const entry of entries) {
+      let node = root
+      const parts = entry.path.split('/').filter(Boolean)
+      parts.forEach((part, index) => {
+        const path = `/${parts.slice(0, index + 1).join('/')}`
+        let child = node.children.find(item => item.name === part)
+        if (!child) {
+          child = { name: part, path, children: [] }
+          node.children.push(child)
+        }
+        if (index === parts.length - 1) child.entry = entry
+        node = child
+      })
+    }
+    return root
+  }
+}
+
+export const moduleOverlay = new ModuleOverlayService()
@@ -3,6 +3,7 @@
 import * as YAML from 'js-yaml'
 import JSZip from 'jszip'
 import type { Module, ModuleDefinition, ModuleFile } from '@/types/module'
+import { BOOLEAN_FALSE, BOOLEAN_TRUE } from '@/services/moduleValidation'
 
 export class ModuleParserService {
   /**
@@ -12,19 +13,16 @@ export class ModuleParserService {
     const zip = await JSZip.loadAsync(zipBlob)
     const modules: Module[] = []
 
-    // Find all potential module directories in the root
-    const rootEntries = Object.keys(zip.files).filter(path => {
-      const parts = path.split('/')
-      return parts.length >= 3 && !zip.files[path].dir // Skip the repo root folder
-    })
+    const filePaths = Object.keys(zip.files).filter(path => !zip.files[path].dir)
+    const root = this.getArchiveRoot(filePaths)
 
-    // Group by module directory (second level directories after repo name)
+    // Group by module directory (first level directories below the archive root)
     const moduleGroups: { [moduleName: string]: string[] } = {}
     
-    rootEntries.forEach(path => {
-      const parts = path.split('/')
-      if (parts.length >= 3) {
-        const moduleName = parts[1] // Skip repo name, get module directory name
+    filePaths.forEach(path => {
+      const parts = path.slice(root.length).split('/')
+      if (parts.length >= 2) {
+        const moduleName = parts[0]
         if (!moduleGroups[moduleName]) {
           moduleGroups[moduleName] = []
         }
@@ -35,7 +33,7 @@ export class ModuleParserService {
     // Process each potential module
     for (const [moduleName, paths] of Object.entries(moduleGroups)) {
       try {
-        const module = await this.parseModule(zip, moduleName, paths)
+        const module = await this.parseModule(zip, `${root}${moduleName}/`, moduleName, paths)
         if (module) {
           modules.push(module)
         }
@@ -47,13 +45,25 @@ export class ModuleParserService {
     return modules
   }
 
+  /**
+   * Repository archives wrap everything in one folder (repo-ref/); uploaded zips may not
+   */
+  private getArchiveRoot(paths: string[]): string {
+    const first = paths[0]?.split('/')[0]
+    if (!first || !paths.every(path => path.startsWith(`${first}/`))) return ''
+
+    // A zip of a single module: its folder is the module itself
+    if (paths.includes(`${first}/module.yaml`)) return ''
+    return `${first}/`
+  }
+
   /**
    * Parse a single module from zip entries
    */
-  private async parseModule(zip: JSZip, moduleName: string, paths: string[]): Promise<Module | null> {
+  private async parseModule(zip: JSZip, modulePath: string, moduleName: string, paths: string[]): Promise<Module | null> {
     // Check for required files
-    const moduleYamlPath = paths.find(path => path.endsWith('/module.yaml'))
-    const readmeEnPath = paths.find(path => path.endsWith('/README/en.md'))
+    const moduleYamlPath = paths.find(path => path === `${modulePath}module.yaml`)
+    const readmeEnPath = paths.find(path => path === `${modulePath}README/en.md`)
 
     if (!moduleYamlPath || !readmeEnPath) {
       console.warn(`Module ${moduleName} missing required files (module.yaml or README/en.md)`)
@@ -73,14 +83,32 @@ export class ModuleParserService {
       throw new Error(`Invalid YAML in module.yaml for ${moduleName}: ${error}`)
     }
 
+    // Parameter values are strings, YAML reads unquoted ones as booleans or numbers
+    for (const paramFile of definition.parameterized_files || []) {
+      for (const param of paramFile.parameters || []) {
+        const value: unknown = param.default
+        if (typeof value === 'boolean') param.default = value ? BOOLEAN_TRUE : BOOLEAN_FALSE
+        else if (value !== undefined && value !== null) param.default = String(value)
+        param.options = param.options?.map(option => typeof option === 'object' ? { ...option, value: String(option.value) } : String(option))
+      }
+    }
+
+    // Unquoted versions are read as numbers ("24.10" as 24.1)
+    for (const key of ['min_version', 'max_version'] as const) {
+      if (typeof definition[key] === 'number') {
+        console.warn(`Module ${moduleName}: quote ${key} in module.yaml`)
+        definition[key] = String(definition[key])
+      }
+    }
+
     // Collect all files
     const files: ModuleFile[] = []
     for (const path of paths) {
       const file = zip.file(path)
       if (file && !file.dir) {
         const content = await file.async('string')
-        // Remove the repo name prefix from path
-        const relativePath = path.split('/').slice(2).join('/')
+        // Path inside the module directory
+        const relativePath = path.slice(modulePath.length)
         files.push({
           path: relativePath,
           content
@@ -141,6 +169,12 @@ export class ModuleParserService {
           if (param.required === undefined) {
             errors.push(`Parameter ${param.name} missing required field`)
           }
+          if (param.type === 'enum' && !param.options?.length) {
+            errors.push(`Parameter ${param.name} of type enum needs options`)
+          }
+          if (!this.isLocalizedText(param.description) || !this.isLocalizedText(param.validation?.message)) {
+            errors.push(`Parameter ${param.name} texts must be strings or per-language maps of strings`)
+          }
         }
       }
     }
@@ -157,8 +191,33 @@ export class ModuleParserService {
       }
     }
 
+    // Validate compatibility metadata
+    for (const key of ['requires', 'conflicts', 'targets', 'arch'] as const) {
+      const value = def[key]
+      if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+        errors.push(`${key} must be a list of strings`)
+      }
+    }
+    for (const key of ['min_version', 'max_version'] as const) {
+      if (def[key] !== undefined && typeof def[key] !== 'string') {
+        errors.push(`${key} must be a quoted string`)
+      }
+    }
+    if (def.requires?.includes(module.id)) {
+      errors.push('Module cannot require itself')
+    }
+
     return errors
   }
+
+  /**
+   * A plain string or a map of language codes to strings ("en", "zh_CN", "pt-br")
+   */
+  private isLocalizedText(text: unknown): boolean {
+    if (text === undefined || typeof text === 'string') return true
+    return typeof text === 'object' && text !== null && !Array.isArray(text)
+      && Object.values(text).every(value => typeof value === 'string')
+  }
 }
 
 export const moduleParserService = new ModuleParserService()
\ No newline at end of file
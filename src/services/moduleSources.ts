@@ -0,0 +1,301 @@
+// Module source providers: where module repositories are downloaded from
+
+import { config } from '@/config'
+
+export type ModuleSourceKind = 'github' | 'gitlab' | 'gitea' | 'archive' | 'upload'
+
+export interface ModuleSourceLocation {
+  provider: ModuleSourceKind
+  url: string // Normalized repository or archive URL
+  host: string
+  path: string // Repository path (owner/repo, GitLab groups included) or archive file name
+}
+
+export interface ModuleSourceProvider {
+  readonly kind: ModuleSourceKind
+  readonly label: string
+  readonly icon: string
+  readonly usesRef: boolean // Branch/tag/commit applies to the download
+  readonly placeholder: string
+
+  /**
+   * Parse a URL this provider can download from. Known hosts only, unless forced.
+   */
+  parse(url: string, force?: boolean): ModuleSourceLocation | null
+  getArchiveUrl(location: ModuleSourceLocation, ref: string): string
+
+  /**
+   * Commit SHA (or another revision id) a ref currently points to, null when the provider cannot tell
+   */
+  resolveRevision(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<string | null>
+}
+
+type ProviderOptions = NonNullable<NonNullable<typeof config.module_providers>['github']>
+
+function getOptions(kind: 'github' | 'gitlab' | 'gitea' | 'archive'): ProviderOptions {
+  return config.module_providers?.[kind] || {}
+}
+
+async function fetchJson(url: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, { signal, cache: 'no-store' })
+  if (!response.ok) {
+    throw new Error(`Failed to resolve ref: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * https://host/<path> or git@host:<path>, without .git and trailing parts after the repository
+ */
+function parseRepositoryUrl(url: string, maxDepth: number): { origin: string; host: string; path: string } | null {
+  const ssh = url.trim().match(/^git@([^:]+):(.+?)(?:\.git)?\/?$/)
+  if (ssh) return { origin: `https://${ssh[1].toLowerCase()}`, host: ssh[1].toLowerCase(), path: ssh[2] }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null
+
+  // GitLab puts its pages after "/-/"
+  const parts = parsed.pathname.split('/-/')[0].split('/').filter(Boolean)
+  if (parts.length < 2) return null
+
+  const path = parts.slice(0, maxDepth).join('/').replace(/\.git$/, '')
+  return { origin: parsed.origin, host: parsed.host.toLowerCase(), path }
+}
+
+export class GitHubProvider implements ModuleSourceProvider {
+  readonly kind = 'github'
+  readonly label = 'GitHub'
+  readonly icon = 'mdi-github'
+  readonly usesRef = true
+  readonly placeholder = 'https://github.com/username/repository'
+
+  parse(url: string, force = false): ModuleSourceLocation | null {
+    const repo = parseRepositoryUrl(url, 2)
+    if (!repo || (!force && repo.host !== 'github.com')) return null
+    return { provider: this.kind, host: repo.host, path: repo.path, url: `${repo.origin}/${repo.path}` }
+  }
+
+  getArchiveUrl(location: ModuleSourceLocation, ref: string): string {
+    return `${location.url}/archive/${encodeURIComponent(ref)}.zip`
+  }
+
+  async resolveRevision(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<string | null> {
+    // GitHub Enterprise serves the API below /api/v3
+    const api = location.host === 'github.com' ? 'https://api.github.com' : `${new URL(location.url).origin}/api/v3`
+    const commit = await fetchJson(`${api}/repos/${location.path}/commits/${encodeURIComponent(ref)}`, signal) as { sha?: string }
+    return commit.sha || null
+  }
+}
+
+export class GitLabProvider implements ModuleSourceProvider {
+  readonly kind = 'gitlab'
+  readonly label = 'GitLab'
+  readonly icon = 'mdi-gitlab'
+  readonly usesRef = true
+  readonly placeholder = 'https://gitlab.com/group/subgroup/repository'
+
+  parse(url: string, force = false): ModuleSourceLocation | null {
+    // Groups can be nested, the whole path is the project
+    const repo = parseRepositoryUrl(url, Infinity)
+    if (!repo) return null
+    const known = repo.host === 'gitlab.com' || (getOptions('gitlab').hosts || []).includes(repo.host)
+    if (!force && !known) return null
+    return { provider: this.kind, host: repo.host, path: repo.path, url: `${repo.origin}/${repo.path}` }
+  }
+
+  getArchiveUrl(location: ModuleSourceLocation, ref: string): string {
+    const name = location.path.split('/').pop()
+    return `${location.url}/-/archive/${encodeURIComponent(ref)}/${name}-${encodeURIComponent(ref)}.zip`
+  }
+
+  async resolveRevision(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<string | null> {
+    const origin = new URL(location.url).origin
+    const project = encodeURIComponent(location.path)
+    const commit = await fetchJson(`${origin}/api/v4/projects/${project}/repository/commits/${encodeURIComponent(ref)}`, signal) as { id?: string }
+    return commit.id || null
+  }
+}
+
+export class GiteaProvider implements ModuleSourceProvider {
+  readonly kind = 'gitea'
+  readonly label = 'Gitea / Forgejo'
+  readonly icon = 'mdi-git'
+  readonly usesRef = true
+  readonly placeholder = 'https://gitea.example.com/owner/repository'
+
+  parse(url: string, force = false): ModuleSourceLocation | null {
+    const repo = parseRepositoryUrl(url, 2)
+    if (!repo) return null
+    const known = repo.host === 'codeberg.org' || (getOptions('gitea').hosts || []).includes(repo.host)
+    if (!force && !known) return null
+    return { provider: this.kind, host: repo.host, path: repo.path, url: `${repo.origin}/${repo.path}` }
+  }
+
+  getArchiveUrl(location: ModuleSourceLocation, ref: string): string {
+    return `${location.url}/archive/${encodeURIComponent(ref)}.zip`
+  }
+
+  async resolveRevision(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<string | null> {
+    const origin = new URL(location.url).origin
+    const commits = await fetchJson(
+      `${origin}/api/v1/repos/${location.path}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&files=false`,
+      signal
+    ) as Array<{ sha?: string }>
+    return commits[0]?.sha || null
+  }
+}
+
+export class ArchiveProvider implements ModuleSourceProvider {
+  readonly kind = 'archive'
+  readonly label = 'ZIP 压缩包 URL'
+  readonly icon = 'mdi-folder-zip'
+  readonly usesRef = false
+  readonly placeholder = 'https://example.com/modules.zip'
+
+  parse(url: string, force = false): ModuleSourceLocation | null {
+    let parsed: URL
+    try {
+      parsed = new URL(url.trim())
+    } catch {
+      return null
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null
+    if (!force && !parsed.pathname.toLowerCase().endsWith('.zip')) return null
+    return {
+      provider: this.kind,
+      host: parsed.host.toLowerCase(),
+      path: parsed.pathname.split('/').pop() || parsed.host,
+      url: parsed.toString()
+    }
+  }
+
+  getArchiveUrl(location: ModuleSourceLocation): string {
+    return location.url
+  }
+
+  /**
+   * ETag or Last-Modified of the archive; without them only a download tells whether it changed
+   */
+  async resolveRevision(location: ModuleSourceLocation, _ref: string, signal?: AbortSignal): Promise<string | null> {
+    const response = await fetch(moduleSourceService.getDownloadUrl(location, ''), { method: 'HEAD', signal, cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Failed to check archive: ${response.status} ${response.statusText}`)
+    }
+    const etag = response.headers.get('etag')
+    const lastModified = response.headers.get('last-modified')
+    return etag ? `etag:${etag}` : lastModified ? `modified:${lastModified}` : null
+  }
+}
+
+export class UploadProvider implements ModuleSourceProvider {
+  readonly kind = 'upload'
+  readonly label = '本地 ZIP 文件'
+  readonly icon = 'mdi-upload'
+  readonly usesRef = false
+  readonly placeholder = ''
+
+  // Uploaded sources are stored as upload:<file name>
+  parse(url: string): ModuleSourceLocation | null {
+    if (!url.startsWith('upload:')) return null
+    const name = url.slice('upload:'.length)
+    return { provider: this.kind, host: '', path: name, url }
+  }
+
+  getArchiveUrl(): string {
+    throw new Error('本地上传的模块源没有下载地址，请重新上传 ZIP 文件')
+  }
+
+  async resolveRevision(): Promise<string | null> {
+    return null
+  }
+}
+
+export class ModuleSourceService {
+  private providers: ModuleSourceProvider[] = [
+    new GitHubProvider(),
+    new GitLabProvider(),
+    new GiteaProvider(),
+    new ArchiveProvider(),
+    new UploadProvider()
+  ]
+
+  getProviders(): ModuleSourceProvider[] {
+    return this.providers
+  }
+
+  getProvider(kind: ModuleSourceKind): ModuleSourceProvider {
+    const provider = this.providers.find(item => item.kind === kind)
+    if (!provider) {
+      throw new Error(`Unknown module source provider: ${kind}`)
+    }
+    return provider
+  }
+
+  /**
+   * Parse a source URL with the given provider, or detect the provider from the host
+   */
+  resolve(url: string, kind?: ModuleSourceKind): ModuleSourceLocation | null {
+    if (kind) {
+      return this.getProvider(kind).parse(url, true)
+    }
+    for (const provider of this.providers) {
+      const location = provider.parse(url)
+      if (location) return location
+    }
+    return null
+  }
+
+  /**
+   * Source id used by selections and saved configurations. GitHub keeps owner/repo@ref.
+   */
+  getSourceId(location: ModuleSourceLocation, ref: string): string {
+    const provider = this.getProvider(location.provider)
+    if (location.provider === 'github' && location.host === 'github.com') {
+      return `${location.path}@${ref}`
+    }
+    // No ":" in ids, selection keys are "<source id>:<module id>"; hosts may carry a port
+    const base = (location.provider === 'archive'
+      ? `${location.host}${new URL(location.url).pathname}`
+      : [location.host, location.path].filter(Boolean).join('/')).replace(/:/g, '_')
+    return provider.usesRef ? `${location.provider}/${base}@${ref}` : `${location.provider}/${base}`
+  }
+
+  /**
+   * Ref the build server fetches: the commit the modules were parsed from, so it builds what was previewed.
+   * Revisions that are no commit (archive ETags, content hashes) leave the ref as is.
+   */
+  getPinnedRef(ref: string, revision?: string): string {
+    return revision && /^[0-9a-f]{40}([0-9a-f]{24})?$/i.test(revision) ? revision : ref
+  }
+
+  /**
+   * Download the archive of a source, through the proxy configured for its provider
+   */
+  async download(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<Blob> {
+    const url = this.getDownloadUrl(location, ref)
+    const response = await fetch(url, { signal })
+    if (!response.ok) {
+      throw new Error(`Failed to download module source: ${response.status} ${response.statusText}`)
+    }
+    return response.blob()
+  }
+
+  async resolveRevision(location: ModuleSourceLocation, ref: string, signal?: AbortSignal): Promise<string | null> {
+    return this.getProvider(location.provider).resolveRevision(location, ref, signal)
+  }
+
+  getDownloadUrl(location: ModuleSourceLocation, ref: string): string {
+    const archiveUrl = this.getProvider(location.provider).getArchiveUrl(location, ref)
+    if (location.provider === 'upload') return archiveUrl
+
+    const proxy = getOptions(location.provider).proxy?.replace(/\/+$/, '')
+    return proxy ? `${proxy}/${archiveUrl}` : archiveUrl
+  }
+}
+
+export const moduleSourceService = new ModuleSourceService()
@@ -0,0 +1,154 @@
+// Local rendering of parameterized module files, with the substitution the build server applies
+
+import type { Module, ModuleSelection, ParameterizedFile } from '@/types/module'
+
+export interface TemplateSegment {
+  text: string
+  kind: 'text' | 'value' | 'undeclared' // Substituted value, or a placeholder no parameter declares
+  name?: string
+}
+
+export interface DiffLine {
+  type: 'same' | 'changed' | 'added' | 'removed'
+  left?: { number: number; text: string }
+  right?: { number: number; text: string }
+}
+
+export interface RenderedFile {
+  file: string // Path in the module, e.g. files/etc/config/network
+  template: string
+  output: string
+  segments: TemplateSegment[]
+  diff: DiffLine[]
+  unused: string[] // Declared parameters the template never uses
+  undeclared: string[] // Placeholders without a declared parameter, left as they are
+  empty: string[] // Used parameters without a value or default, rendered empty
+}
+
+// {{name}} with optional spaces inside the braces
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g
+
+export class ModuleTemplateService {
+  /**
+   * Parameter names a template refers to, in order of first use
+   */
+  findPlaceholders(template: string): string[] {
+    return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))]
+  }
+
+  /**
+   * Replace each {{name}} with its value. Names missing from `values` stay as written.
+   */
+  render(template: string, values: Record<string, string>): { output: string; segments: TemplateSegment[] } {
+    const segments: TemplateSegment[] = []
+    let last = 0
+
+    for (const match of template.matchAll(PLACEHOLDER)) {
+      const index = match.index!
+      if (index > last) segments.push({ text: template.slice(last, index), kind: 'text' })
+
+      const name = match[1]
+      segments.push(name in values
+        ? { text: values[name], kind: 'value', name }
+        : { text: match[0], kind: 'undeclared', name })
+      last = index + match[0].length
+    }
+    if (last < template.length) segments.push({ text: template.slice(last), kind: 'text' })
+
+    return { output: segments.map(segment => segment.text).join(''), segments }
+  }
+
+  /**
+   * Render a parameterized file of a module with the values of a selection (defaults otherwise)
+   */
+  renderFile(module: Module, paramFile: ParameterizedFile, selection: ModuleSelection | undefined): RenderedFile {
+    const template = module.files.find(file => file.path === paramFile.file)?.content ?? ''
+
+    const values: Record<string, string> = {}
+    for (const param of paramFile.parameters) {
+      const value = selection?.parameters[`${paramFile.file}:${param.name}`]
+      values[param.name] = value || param.default || ''
+    }
+
+    const used = this.findPlaceholders(template)
+    const declared = paramFile.parameters.map(param => param.name)
+    const { output, segments } = this.render(template, values)
+
+    return {
+      file: paramFile.file,
+      template,
+      output,
+      segments,
+      diff: this.diffLines(template, output),
+      unused: declared.filter(name => !used.includes(name)),
+      undeclared: used.filter(name => !declared.includes(name)),
+      empty: used.filter(name => declared.includes(name) && !values[name])
+    }
+  }
+
+  /**
+   * Segments split at line breaks, one list per output line
+   */
+  splitLines(segments: TemplateSegment[]): TemplateSegment[][] {
+    const lines: TemplateSegment[][] = [[]]
+    for (const segment of segments) {
+      segment.text.split('\n').forEach((text, index) => {
+        if (index > 0) lines.push([])
+        if (text) lines[lines.length - 1].push({ ...segment, text })
+      })
+    }
+    return lines
+  }
+
+  /**
+   * Line diff for a side-by-side view; a removed line followed by an added one is shown as changed
+   */
+  diffLines(before: string, after: string): DiffLine[] {
+    const left = before.split('\n')
+    const right = after.split('\n')
+
+    // Longest common subsequence table, from the end
+    const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0))
+    for (let i = left.length - 1; i >= 0; i--) {
+      for (let j = right.length - 1; j >= 0; j--) {
+        lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+      }
+    }
+
+    const lines: DiffLine[] = []
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    const flush = () => {
+      const pairs = Math.max(removed.length, added.length)
+      for (let k = 0; k < pairs; k++) {
+        const l = removed[k]?.left
+        const r = added[k]?.right
+        lines.push({ type: l && r ? 'changed' : l ? 'removed' : 'added', left: l, right: r })
+      }
+      removed.length = 0
+      added.length = 0
+    }
+
+    let i = 0
+    let j = 0
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        flush()
+        lines.push({ type: 'same', left: { number: i + 1, text: left[i] }, right: { number: j + 1, text: right[j] } })
+        i++
+        j++
+      } else if (j < right.length && (i >= left.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        added.push({ type: 'added', right: { number: j + 1, text: right[j] } })
+        j++
+      } else {
+        removed.push({ type: 'removed', left: { number: i + 1, text: left[i] } })
+        i++
+      }
+    }
+    flush()
+
+    return lines
+  }
+}
+
+export const moduleTemplate = new ModuleTemplateService()
@@ -1,6 +1,7 @@
 // Module parameter validation service
 
-import type { ModuleParameter } from '@/types/module'
+import { moduleLocale } from '@/services/moduleLocale'
+import type { LocalizedText, ModuleParameter, ModuleParameterOption, ModuleParameterType } from '@/types/module'
 
 export interface ValidationResult {
   isValid: boolean
@@ -12,35 +13,162 @@ export interface ParameterValidationRules {
   pattern?: string
   minLength?: number
   maxLength?: number
-  type?: 'string' | 'number' | 'email' | 'url' | 'ip' | 'mac' | 'hostname'
-  customMessage?: string
+  min?: number
+  max?: number
+  options?: string[]
+  type: ModuleParameterType
+  customMessage?: LocalizedText
 }
 
+// Language of the messages and the translation lookup, usually the i18n store
+export interface ValidationLocale {
+  language: string
+  t: (key: string, fallback?: string) => string
+}
+
+const DEFAULT_LOCALE: ValidationLocale = {
+  language: 'en',
+  t: (key, fallback) => fallback || key
+}
+
+// English texts, translated as "tr-module-<id>" in public/langs
+const MESSAGES = {
+  'required': '{name} is required',
+  'invalid-value': '{name}: {message}',
+  'invalid-format': '{name} has an invalid format: {message}',
+  'min-length': '{name} needs at least {count} characters',
+  'max-length': '{name} allows at most {count} characters',
+  'boolean': 'must be 1 or 0',
+  'integer': 'must be an integer',
+  'min': 'must not be less than {min}',
+  'max': 'must not be greater than {max}',
+  'enum': 'must be one of {options}',
+  'ipv4': 'Enter a valid IPv4 address',
+  'ipv6': 'Enter a valid IPv6 address',
+  'cidr': 'Enter a valid network, e.g. 192.168.1.0/24',
+  'mac': 'Enter a valid MAC address',
+  'list-item': 'contains an invalid item: {item}',
+  'ip': 'Enter a valid IP address',
+  'email': 'Enter a valid email address',
+  'url': 'Enter a valid URL',
+  'hostname': 'Enter a valid hostname',
+  'port': 'Enter a valid port (1-65535)',
+  'number': 'Enter a number',
+  'positive-integer': 'Enter a positive integer',
+  'password': 'At least 8 characters with upper and lower case letters and digits',
+  'ssid': 'Enter a valid SSID (1-32 characters)',
+  'format': 'Invalid format',
+  'download-required': 'A download URL is required',
+  'download-url': 'Must be a valid HTTP/HTTPS URL',
+  'unknown-source': 'Unrecognized module source URL, choose the source type',
+  'unknown-source-url': 'Unrecognized module source URL',
+  'target': 'Only supports targets {targets}',
+  'arch': 'Only supports architectures {arch}',
+  'min-version': 'Requires OpenWrt {version} or newer',
+  'max-version': 'Only supports OpenWrt {version} and older',
+  'conflict': '{name} conflicts with {other}',
+  'package-conflict': 'Package {package} is installed by one module and removed by another',
+  'requires-missing': '{name} requires modules that do not exist: {modules}',
+  'incompatible': '{name} does not fit the current device: {issues}',
+  'selection-missing': 'Module selection does not exist',
+  'required-missing': 'Required module does not exist: {name}',
+  'required-not-selected': 'Required module must be selected too: {name}',
+  'update-check-failed': 'Failed to check {name} for updates: {error}'
+} as const
+
+type MessageId = keyof typeof MESSAGES
+
+// Parameter values are strings, booleans are written as UCI does
+export const BOOLEAN_TRUE = '1'
+export const BOOLEAN_FALSE = '0'
+
 export class ModuleValidationService {
+  /**
+   * Rules of a parameter as declared in module.yaml
+   */
+  getValidationRules(param: ModuleParameter): ParameterValidationRules {
+    return {
+      required: param.required,
+      pattern: param.validation?.pattern,
+      minLength: param.min_length,
+      maxLength: param.max_length,
+      min: param.min,
+      max: param.max,
+      options: param.options?.map(option => this.getOptionValue(option)),
+      type: param.type || 'string',
+      customMessage: param.validation?.message
+    }
+  }
+
+  getOptionValue(option: string | ModuleParameterOption): string {
+    return typeof option === 'string' ? option : option.value
+  }
+
+  /**
+   * Items of a list parameter
+   */
+  splitList(param: ModuleParameter, value: string): string[] {
+    const separator = param.separator || ' '
+    return value.split(separator).map(item => item.trim()).filter(Boolean)
+  }
+
+  joinList(param: ModuleParameter, items: string[]): string {
+    return items.map(item => item.trim()).filter(Boolean).join(param.separator || ' ')
+  }
+
+  /**
+   * Translated message with its {placeholders} filled in
+   */
+  message(id: MessageId, params: Record<string, string | number> = {}, locale = DEFAULT_LOCALE): string {
+    const text = locale.t(`tr-module-${id}`, MESSAGES[id])
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match)
+  }
+
   /**
    * Validate a single parameter value
    */
-  validateParameter(param: ModuleParameter, value: string): ValidationResult {
+  validateParameter(param: ModuleParameter, value: string, locale = DEFAULT_LOCALE): ValidationResult {
+    const rules = this.getValidationRules(param)
+    const name = param.name
+
     // Check required
-    if (param.required && (!value || value.trim() === '')) {
+    if (rules.required && (!value || value.trim() === '')) {
       return {
         isValid: false,
-        errorMessage: `${param.name} 是必填项`
+        errorMessage: this.message('required', { name }, locale)
       }
     }
 
     // Skip validation for empty optional parameters
-    if (!param.required && (!value || value.trim() === '')) {
+    if (!rules.required && (!value || value.trim() === '')) {
       return { isValid: true }
     }
 
-    // Pattern validation
-    if (param.validation?.pattern) {
-      const patternResult = this.validatePattern(param.validation.pattern, value)
+    // Message of the module author, in the user's language
+    const customMessage = rules.customMessage && moduleLocale.pick(rules.customMessage, locale.language)
+
+    const typeError = this.validateType(rules, param, value, locale)
+    if (typeError) {
+      return {
+        isValid: false,
+        errorMessage: this.message('invalid-value', { name, message: customMessage || typeError }, locale)
+      }
+    }
+
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      return { isValid: false, errorMessage: this.message('min-length', { name, count: rules.minLength }, locale) }
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      return { isValid: false, errorMessage: this.message('max-length', { name, count: rules.maxLength }, locale) }
+    }
+
+    // Pattern validation (per item for lists)
+    if (rules.pattern && rules.type !== 'list') {
+      const patternResult = this.validatePattern(rules.pattern, value, locale)
       if (!patternResult.isValid) {
         return {
           isValid: false,
-          errorMessage: `${param.name} 格式不正确: ${patternResult.errorMessage}`
+          errorMessage: this.message('invalid-format', { name, message: customMessage || patternResult.errorMessage! }, locale)
         }
       }
     }
@@ -48,16 +176,96 @@ export class ModuleValidationService {
     return { isValid: true }
   }
 
+  /**
+   * Error message when the value does not match the parameter type, null when it does
+   */
+  private validateType(
+    rules: ParameterValidationRules,
+    param: ModuleParameter,
+    value: string,
+    locale: ValidationLocale
+  ): string | null {
+    const check = (valid: boolean, id: MessageId) => valid ? null : this.message(id, {}, locale)
+
+    switch (rules.type) {
+      case 'boolean':
+        return check(value === BOOLEAN_TRUE || value === BOOLEAN_FALSE, 'boolean')
+      case 'integer': {
+        if (!/^-?\d+$/.test(value.trim())) return this.message('integer', {}, locale)
+        const number = parseInt(value, 10)
+        if (rules.min !== undefined && number < rules.min) return this.message('min', { min: rules.min }, locale)
+        if (rules.max !== undefined && number > rules.max) return this.message('max', { max: rules.max }, locale)
+        return null
+      }
+      case 'enum':
+        return !rules.options?.length || rules.options.includes(value)
+          ? null
+          : this.message('enum', { options: rules.options.join(', ') }, locale)
+      case 'ipv4':
+        return check(this.isIPv4(value), 'ipv4')
+      case 'ipv6':
+        return check(this.isIPv6(value), 'ipv6')
+      case 'cidr':
+        return check(this.isCidr(value), 'cidr')
+      case 'mac':
+        return check(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/.test(value), 'mac')
+      case 'list': {
+        // Items are checked against the pattern one by one
+        if (!rules.pattern) return null
+        const invalid = this.splitList(param, value).find(item => !this.validatePattern(rules.pattern!, item, locale).isValid)
+        return invalid ? this.message('list-item', { item: invalid }, locale) : null
+      }
+      default:
+        return null
+    }
+  }
+
+  isIPv4(value: string): boolean {
+    const parts = value.split('.')
+    return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && parseInt(part, 10) <= 255)
+  }
+
+  isIPv6(value: string): boolean {
+    // An IPv4 tail (::ffff:192.0.2.1) counts as two groups
+    let address = value
+    let groups = 8
+    const lastColon = address.lastIndexOf(':')
+    if (address.includes('.')) {
+      if (!this.isIPv4(address.slice(lastColon + 1))) return false
+      address = `${address.slice(0, lastColon + 1)}0`
+      groups = 7
+    }
+
+    const halves = address.split('::')
+    if (halves.length > 2) return false
+
+    const parse = (half: string) => (half ? half.split(':') : [])
+    const head = parse(halves[0])
+    const tail = halves.length === 2 ? parse(halves[1]) : []
+    const valid = [...head, ...tail].every(group => /^[0-9A-Fa-f]{1,4}$/.test(group))
+    const count = head.length + tail.length
+
+    return valid && (halves.length === 2 ? count < groups : count === groups)
+  }
+
+  isCidr(value: string): boolean {
+    const [address, prefix, ...rest] = value.split('/')
+    if (rest.length > 0 || prefix === undefined || !/^\d{1,3}$/.test(prefix)) return false
+    const length = parseInt(prefix, 10)
+    if (this.isIPv4(address)) return length <= 32
+    return this.isIPv6(address) && length <= 128
+  }
+
   /**
    * Validate parameter against regex pattern
    */
-  private validatePattern(pattern: string, value: string): ValidationResult {
+  private validatePattern(pattern: string, value: string, locale: ValidationLocale): ValidationResult {
     try {
       const regex = new RegExp(pattern)
       if (!regex.test(value)) {
         return {
           isValid: false,
-          errorMessage: this.getPatternErrorMessage(pattern)
+          errorMessage: this.message(this.getPatternMessageId(pattern), {}, locale)
         }
       }
       return { isValid: true }
@@ -70,38 +278,38 @@ export class ModuleValidationService {
   /**
    * Get user-friendly error message for common patterns
    */
-  private getPatternErrorMessage(pattern: string): string {
-    const commonPatterns: Record<string, string> = {
+  private getPatternMessageId(pattern: string): MessageId {
+    const commonPatterns: Record<string, MessageId> = {
       // IP address patterns
-      '^((25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$': '请输入有效的IP地址',
-      '^(?:[0-9]{1,3}\\.){3}[0-9]{1,3}$': '请输入有效的IP地址',
+      '^((25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$': 'ip',
+      '^(?:[0-9]{1,3}\\.){3}[0-9]{1,3}$': 'ip',
       
       // MAC address patterns
-      '^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$': '请输入有效的MAC地址',
-      '^[0-9a-fA-F]{2}(:[0-9a-fA-F]{2}){5}$': '请输入有效的MAC地址',
+      '^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$': 'mac',
+      '^[0-9a-fA-F]{2}(:[0-9a-fA-F]{2}){5}$': 'mac',
       
       // Email patterns
-      '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$': '请输入有效的邮箱地址',
+      '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$': 'email',
       
       // URL patterns
-      '^https?://.*': '请输入有效的URL地址',
-      '^(https?|ftp)://[^\\s/$.?#].[^\\s]*$': '请输入有效的URL地址',
+      '^https?://.*': 'url',
+      '^(https?|ftp)://[^\\s/$.?#].[^\\s]*$': 'url',
       
       // Hostname patterns
-      '^[a-zA-Z0-9]([a-zA-Z0-9\\-]{0,61}[a-zA-Z0-9])?$': '请输入有效的主机名',
+      '^[a-zA-Z0-9]([a-zA-Z0-9\\-]{0,61}[a-zA-Z0-9])?$': 'hostname',
       
       // Port patterns
-      '^(6553[0-5]|655[0-2][0-9]|65[0-4][0-9]{2}|6[0-4][0-9]{3}|[1-5][0-9]{4}|[1-9][0-9]{0,3})$': '请输入有效的端口号 (1-65535)',
+      '^(6553[0-5]|655[0-2][0-9]|65[0-4][0-9]{2}|6[0-4][0-9]{3}|[1-5][0-9]{4}|[1-9][0-9]{0,3})$': 'port',
       
       // Number patterns
-      '^[0-9]+$': '请输入数字',
-      '^[1-9][0-9]*$': '请输入正整数',
+      '^[0-9]+$': 'number',
+      '^[1-9][0-9]*$': 'positive-integer',
       
       // Password patterns
-      '^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)[a-zA-Z\\d@$!%*?&]{8,}$': '密码至少8位，包含大小写字母和数字',
+      '^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)[a-zA-Z\\d@$!%*?&]{8,}$': 'password',
       
       // SSID patterns
-      '^[\\x20-\\x7E]{1,32}$': '请输入有效的SSID (1-32个字符)',
+      '^[\\x20-\\x7E]{1,32}$': 'ssid',
     }
 
     // Check for exact matches
@@ -113,22 +321,22 @@ export class ModuleValidationService {
 
     // Check for partial matches
     if (pattern.includes('IP') || pattern.includes('ip')) {
-      return '请输入有效的IP地址'
+      return 'ip'
     }
     if (pattern.includes('MAC') || pattern.includes('mac')) {
-      return '请输入有效的MAC地址'  
+      return 'mac'  
     }
     if (pattern.includes('@')) {
-      return '请输入有效的邮箱地址'
+      return 'email'
     }
     if (pattern.includes('http')) {
-      return '请输入有效的URL地址'
+      return 'url'
     }
     if (pattern.includes('[0-9]')) {
-      return '请输入数字'
+      return 'number'
     }
 
-    return '输入格式不正确'
+    return 'format'
   }
 
   /**
@@ -136,13 +344,14 @@ export class ModuleValidationService {
    */
   validateAllParameters(
     parameters: { [key: string]: ModuleParameter },
-    values: { [key: string]: string }
+    values: { [key: string]: string },
+    locale = DEFAULT_LOCALE
   ): { isValid: boolean; errors: { [key: string]: string } } {
     const errors: { [key: string]: string } = {}
 
     for (const [key, param] of Object.entries(parameters)) {
       const value = values[key] || ''
-      const result = this.validateParameter(param, value)
+      const result = this.validateParameter(param, value, locale)
       
       if (!result.isValid) {
         errors[key] = result.errorMessage!
@@ -158,43 +367,30 @@ export class ModuleValidationService {
   /**
    * Get Vuetify validation rules for a parameter
    */
-  getVuetifyRules(param: ModuleParameter): Array<(value: string) => boolean | string> {
-    const rules: Array<(value: string) => boolean | string> = []
-
-    // Required rule
-    if (param.required) {
-      rules.push((value: string) => {
-        if (!value || value.trim() === '') {
-          return `${param.name} 是必填项`
-        }
-        return true
-      })
-    }
-
-    // Pattern rule
-    if (param.validation?.pattern) {
-      rules.push((value: string) => {
-        // Skip validation for empty optional parameters
-        if (!param.required && (!value || value.trim() === '')) {
-          return true
-        }
-        
-        const result = this.validateParameter(param, value)
+  getVuetifyRules(param: ModuleParameter, locale = DEFAULT_LOCALE): Array<(value: string) => boolean | string> {
+    return [
+      (value: string) => {
+        const result = this.validateParameter(param, value ?? '', locale)
         return result.isValid || result.errorMessage!
-      })
-    }
+      }
+    ]
+  }
 
-    return rules
+  /**
+   * Passwords and other secrets must not leave the browser in share links
+   */
+  isSecret(param: ModuleParameter): boolean {
+    return param.type === 'password'
   }
 
   /**
    * Validate user download URL
    */
-  validateDownloadUrl(url: string): ValidationResult {
+  validateDownloadUrl(url: string, locale = DEFAULT_LOCALE): ValidationResult {
     if (!url || url.trim() === '') {
       return {
         isValid: false,
-        errorMessage: '下载URL是必需的'
+        errorMessage: this.message('download-required', {}, locale)
       }
     }
 
@@ -202,7 +398,7 @@ export class ModuleValidationService {
     if (!urlPattern.test(url)) {
       return {
         isValid: false,
-        errorMessage: '必须是有效的HTTP/HTTPS URL'
+        errorMessage: this.message('download-url', {}, locale)
       }
     }
 
@@ -212,10 +408,10 @@ export class ModuleValidationService {
   /**
    * Get download URL validation rules for Vuetify
    */
-  getDownloadUrlRules(): Array<(value: string) => boolean | string> {
+  getDownloadUrlRules(locale = DEFAULT_LOCALE): Array<(value: string) => boolean | string> {
     return [
       (value: string) => {
-        const result = this.validateDownloadUrl(value)
+        const result = this.validateDownloadUrl(value, locale)
         return result.isValid || result.errorMessage!
       }
     ]
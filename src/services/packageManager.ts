@@ -1,12 +1,43 @@
 // OpenWrt package management service
 
-import type { OpenWrtPackage, PackageFeed, PackageSearchFilter } from '@/types/package'
+import type { OpenWrtPackage, PackageConstraint, PackageFeed, PackageSearchFilter } from '@/types/package'
 import { config } from '@/config'
+import { dependencyResolver } from '@/services/dependencyResolver'
+import { mirrorService } from '@/services/mirror'
 // Import ADB parser for apk v3 package index
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - JS module export without types
 import { parsePackagesAdbFromBytes } from '@/tools/adbdump.js'
 
+export interface FeedValidators {
+  etag?: string
+  lastModified?: string
+}
+
+export interface FeedFetchResult extends FeedValidators {
+  notModified: boolean // Index unchanged since the cached copy, packages are not returned
+  packages?: OpenWrtPackage[]
+  size: number // Downloaded index size (bytes)
+}
+
+export interface FeedProgress {
+  stage: 'download' | 'parse'
+  loaded: number // Bytes received
+  total?: number // Content-Length, when the mirror sends it
+}
+
+export interface FeedFetchOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: FeedProgress) => void
+  mirrorUrls?: string[] // The feed on each mirror in failover order; workers cannot see the mirror selection
+}
+
+// Packages by name, and the providers of each virtual name sorted by provider priority
+export interface PackageProviderIndex {
+  byName: Map<string, OpenWrtPackage>
+  providers: Map<string, OpenWrtPackage[]>
+}
+
 export class PackageManagerService {
   private readonly ARCHITECTURE_FEEDS = ['base', 'luci', 'packages', 'telephony']
   private readonly TARGET_FEEDS = ['kmods', 'packages'] // Target-specific feeds
@@ -41,31 +72,111 @@ export class PackageManagerService {
     return urls
   }
 
+  /**
+   * Feed names matching the URLs returned by generateFeedUrls
+   */
+  getFeedNames(target?: string, hasKernelInfo = false): string[] {
+    return [
+      ...this.ARCHITECTURE_FEEDS,
+      ...(target ? ['target-packages'] : []),
+      ...(target && hasKernelInfo ? ['kmods'] : [])
+    ]
+  }
+
   /**
    * Fetch and parse packages from a feed URL
    */
   async fetchFeedPackages(feedUrl: string, feedName: string): Promise<OpenWrtPackage[]> {
+    const result = await this.fetchFeed(feedUrl, feedName)
+    return result.packages || []
+  }
+
+  /**
+   * Fetch a feed, skipping download and parsing when it matches the cached validators.
+   * The browser revalidates with If-None-Match/If-Modified-Since itself ('no-cache'),
+   * which avoids a CORS preflight for explicit conditional headers on mirrors.
+   */
+  async fetchFeed(
+    feedUrl: string,
+    feedName: string,
+    cached?: FeedValidators,
+    options: FeedFetchOptions = {}
+  ): Promise<FeedFetchResult> {
+    const { signal, onProgress, mirrorUrls } = options
     try {
-      const response = await fetch(feedUrl)
+      const response = await mirrorService.fetch(feedUrl, { cache: 'no-cache', signal }, mirrorUrls)
+      if (response.status === 304) {
+        return { notModified: true, size: 0 }
+      }
       if (!response.ok) {
         throw new Error(`Failed to fetch packages: ${response.statusText}`)
       }
 
+      const etag = response.headers.get('ETag') || undefined
+      const lastModified = response.headers.get('Last-Modified') || undefined
+      if (cached && this.matchesValidators(cached, etag, lastModified)) {
+        response.body?.cancel().catch(() => {})
+        return { notModified: true, etag, lastModified, size: 0 }
+      }
+
+      const bytes = await this.readResponse(response, onProgress)
+      signal?.throwIfAborted()
+      onProgress?.({ stage: 'parse', loaded: bytes.byteLength, total: bytes.byteLength })
+
       // Detect APK v3 ADB index by filename
+      let packages: OpenWrtPackage[]
       if (feedUrl.toLowerCase().endsWith('packages.adb')) {
-        const buf = await response.arrayBuffer()
-        const decoded: { packages: any[] } = await parsePackagesAdbFromBytes(new Uint8Array(buf))
-        return this.mapAdbPackages(decoded.packages || [], feedName)
+        const decoded: { packages: any[] } = await parsePackagesAdbFromBytes(bytes)
+        packages = this.mapAdbPackages(decoded.packages || [], feedName)
       } else {
-        const packagesText = await response.text()
-        return this.parsePackagesFile(packagesText, feedName)
+        const packagesText = new TextDecoder('utf-8').decode(bytes)
+        packages = this.parsePackagesFile(packagesText, feedName)
       }
+
+      return { notModified: false, packages, etag, lastModified, size: bytes.byteLength }
     } catch (error) {
-      console.error(`Error fetching packages from ${feedUrl}:`, error)
+      if (!signal?.aborted) {
+        console.error(`Error fetching packages from ${feedUrl}:`, error)
+      }
       throw error
     }
   }
 
+  /**
+   * Read a response body while reporting download progress
+   */
+  private async readResponse(response: Response, onProgress?: (progress: FeedProgress) => void): Promise<Uint8Array> {
+    const total = Number(response.headers.get('Content-Length')) || undefined
+    if (!response.body || !onProgress) {
+      return new Uint8Array(await response.arrayBuffer())
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let loaded = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      loaded += value.byteLength
+      onProgress({ stage: 'download', loaded, total })
+    }
+
+    const bytes = new Uint8Array(loaded)
+    let offset = 0
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+    return bytes
+  }
+
+  private matchesValidators(cached: FeedValidators, etag?: string, lastModified?: string): boolean {
+    if (cached.etag && etag) return cached.etag === etag
+    if (cached.lastModified && lastModified) return cached.lastModified === lastModified
+    return false
+  }
+
   /**
    * Parse OpenWrt Packages file format
    */
@@ -111,6 +222,17 @@ export class PackageManagerService {
         case 'Depends':
           // Parse dependencies (comma-separated, may have version constraints)
           pkg.depends = this.parseDependencies(value)
+          pkg.dependencies = dependencyResolver.parseConstraintList(value)
+            .filter(dep => dep.name !== 'libc')
+          break
+        case 'Conflicts':
+          pkg.conflicts = dependencyResolver.parseConstraintList(value)
+          break
+        case 'Provides':
+          pkg.provides = dependencyResolver.parseConstraintList(value)
+          break
+        case 'Replaces':
+          pkg.replaces = dependencyResolver.parseConstraintList(value)
           break
         case 'License':
           pkg.license = value
@@ -171,9 +293,30 @@ export class PackageManagerService {
       const sha256sum: string = e.hashes || ''
       const dependsRaw: string[] = Array.isArray(e.depends) ? e.depends : []
       const depends: string[] = dependsRaw
+        .filter(d => !String(d).startsWith('!'))
         .map(d => this.cleanAdbDependency(String(d)))
         .filter(d => d && d !== 'libc')
 
+      // Keep version constraints; '!pkg' entries are conflicts rather than dependencies
+      const dependencies: PackageConstraint[] = []
+      const conflicts: PackageConstraint[] = []
+      for (const raw of dependsRaw) {
+        const parsed = dependencyResolver.parseConstraint(String(raw))
+        if (!parsed || parsed.constraint.name === 'libc') continue
+        if (parsed.conflict) {
+          conflicts.push(parsed.constraint)
+        } else {
+          dependencies.push(parsed.constraint)
+        }
+      }
+
+      const provides = this.parseAdbConstraints(e.provides)
+      const replaces = this.parseAdbConstraints(e.replaces)
+      const installIf = this.parseAdbConstraints(e['install-if'])
+      const providerPriority: number | undefined = e['provider-priority'] !== undefined
+        ? Number(e['provider-priority'])
+        : undefined
+
       // ADB index does not include section/filename; provide sensible defaults
       const section = ''
       const filename = `${name}_${version}_${architecture}.apk`
@@ -182,6 +325,12 @@ export class PackageManagerService {
         name,
         version,
         depends,
+        dependencies,
+        conflicts,
+        provides,
+        replaces,
+        installIf,
+        providerPriority,
         license,
         section,
         url,
@@ -197,6 +346,15 @@ export class PackageManagerService {
     return out
   }
 
+  /** Parse an ADB dependency array (provides, replaces, install-if) */
+  private parseAdbConstraints(value: unknown): PackageConstraint[] | undefined {
+    if (!Array.isArray(value)) return undefined
+    return value
+      .map(entry => dependencyResolver.parseConstraint(String(entry)))
+      .filter((parsed): parsed is { constraint: PackageConstraint; conflict: boolean } => !!parsed)
+      .map(parsed => parsed.constraint)
+  }
+
   /** Strip version/op from ADB dependency strings like 'foo>=1.2' or '!bar' */
   private cleanAdbDependency(dep: string): string {
     const m = dep.replace(/^!/, '').match(/^([^<>=~\s]+)/)
@@ -225,7 +383,7 @@ export class PackageManagerService {
     return version === 'SNAPSHOT' || version.endsWith('-SNAPSHOT')
   }
 
-  private isApkVersion(version: string): boolean {
+  isApkVersion(version: string): boolean {
     const list = (config as any).apk_versions as string[] | undefined
     return Array.isArray(list) ? list.includes(version) : false
   }
@@ -241,7 +399,8 @@ export class PackageManagerService {
       const query = filter.query.toLowerCase()
       results = results.filter(pkg =>
         pkg.name.toLowerCase().includes(query) ||
-        pkg.description.toLowerCase().includes(query)
+        pkg.description.toLowerCase().includes(query) ||
+        !!pkg.provides?.some(provide => provide.name.toLowerCase().includes(query))
       )
     }
 
@@ -277,9 +436,63 @@ export class PackageManagerService {
   }
 
   /**
-   * Calculate dependency tree for a package
+   * Build a lookup of packages by name and by the virtual names they provide
+   */
+  buildProviderIndex(packages: OpenWrtPackage[]): PackageProviderIndex {
+    const byName = new Map<string, OpenWrtPackage>()
+    const providers = new Map<string, OpenWrtPackage[]>()
+
+    for (const pkg of packages) {
+      if (!byName.has(pkg.name)) {
+        byName.set(pkg.name, pkg)
+      }
+      for (const provide of pkg.provides || []) {
+        const list = providers.get(provide.name)
+        if (list) {
+          list.push(pkg)
+        } else {
+          providers.set(provide.name, [pkg])
+        }
+      }
+    }
+
+    for (const list of providers.values()) {
+      list.sort((a, b) => (b.providerPriority || 0) - (a.providerPriority || 0) || a.name.localeCompare(b.name))
+    }
+
+    return { byName, providers }
+  }
+
+  /**
+   * Find a package by name, falling back to the preferred provider of the name
    */
-  getDependencyTree(packageName: string, packages: OpenWrtPackage[]): string[] {
+  findPackage(packageName: string, index: PackageProviderIndex): OpenWrtPackage | undefined {
+    return index.byName.get(packageName) || index.providers.get(packageName)?.[0]
+  }
+
+  /**
+   * Split package names into those a feed set can install (directly or via Provides) and the rest
+   */
+  filterAvailablePackages(packageNames: string[], packages: OpenWrtPackage[]): { available: string[]; missing: string[] } {
+    const index = this.buildProviderIndex(packages)
+    const available: string[] = []
+    const missing: string[] = []
+
+    for (const name of packageNames) {
+      if (index.byName.has(name) || index.providers.has(name)) {
+        available.push(name)
+      } else {
+        missing.push(name)
+      }
+    }
+
+    return { available, missing }
+  }
+
+  /**
+   * Calculate dependency tree for a package, resolving virtual names to their providers
+   */
+  getDependencyTree(packageName: string, index: PackageProviderIndex): string[] {
     const visited = new Set<string>()
     const dependencies: string[] = []
 
@@ -287,14 +500,16 @@ export class PackageManagerService {
       if (visited.has(pkgName)) return
 
       visited.add(pkgName)
-      const pkg = packages.find(p => p.name === pkgName)
-
-      if (pkg && pkg.depends) {
-        for (const dep of pkg.depends) {
-          if (!visited.has(dep)) {
-            dependencies.push(dep)
-            addDependencies(dep)
-          }
+      const pkg = this.findPackage(pkgName, index)
+      if (!pkg) return
+      visited.add(pkg.name)
+
+      for (const dep of pkg.depends || []) {
+        const provider = this.findPackage(dep, index)
+        const depName = provider ? provider.name : dep
+        if (!visited.has(dep) && !visited.has(depName)) {
+          dependencies.push(depName)
+          addDependencies(depName)
         }
       }
     }
@@ -304,12 +519,15 @@ export class PackageManagerService {
   }
 
   /**
-   * Find packages that depend on a given package
+   * Find packages that depend on a given package, directly or through a name it provides
    */
   getDependents(packageName: string, packages: OpenWrtPackage[]): string[] {
+    const pkg = packages.find(p => p.name === packageName)
+    const names = new Set([packageName, ...(pkg?.provides || []).map(provide => provide.name)])
+
     return packages
-      .filter(pkg => pkg.depends?.includes(packageName))
-      .map(pkg => pkg.name)
+      .filter(p => p.depends?.some(dep => names.has(dep)))
+      .map(p => p.name)
   }
 
   /**
@@ -0,0 +1,154 @@
+// Carries package selections over to another release and reports what changed
+
+import { packageManager, type PackageProviderIndex } from '@/services/packageManager'
+import type { OpenWrtPackage } from '@/types/package'
+
+export type PackageFormat = 'ipk' | 'apk'
+
+export type MigrationStatus =
+  | 'kept' // Same name, same feed
+  | 'moved' // Same name, different feed
+  | 'renamed' // Replaced by a package with another name
+  | 'provided' // Only available as a virtual name of another package
+  | 'missing' // Not available in the new release, dropped
+  | 'not_default' // Removal of a package that is no longer a default, dropped
+
+export interface PackageMigrationEntry {
+  name: string
+  action: 'added' | 'removed'
+  status: MigrationStatus
+  newName?: string
+  fromFeed?: string
+  toFeed?: string
+}
+
+export interface PackageConfiguration {
+  addedPackages: string[]
+  removedPackages: string[]
+}
+
+export interface PackageMigrationReport {
+  fromVersion: string
+  toVersion: string
+  fromFormat: PackageFormat
+  toFormat: PackageFormat
+  entries: PackageMigrationEntry[]
+  configuration: PackageConfiguration // Selection to use in the new release
+  feedsUnavailable: boolean // New feeds could not be loaded, the selection is kept unchecked
+}
+
+export interface PackageMigrationInput {
+  fromVersion: string
+  toVersion: string
+  configuration: PackageConfiguration
+  fromPackages: OpenWrtPackage[]
+  toPackages: OpenWrtPackage[]
+  toDefaultPackages: string[]
+}
+
+// Library names carry an ABI version in opkg feeds (libubox20240329, libopenssl3)
+const ABI_SUFFIX_PATTERN = /^(lib.*?[a-z+_-])(\d[\d.]*)$/
+
+export class PackageMigrationService {
+  migrate(input: PackageMigrationInput): PackageMigrationReport {
+    const { fromVersion, toVersion, configuration, fromPackages, toPackages, toDefaultPackages } = input
+    const report: PackageMigrationReport = {
+      fromVersion,
+      toVersion,
+      fromFormat: this.getFormat(fromVersion),
+      toFormat: this.getFormat(toVersion),
+      entries: [],
+      configuration: { addedPackages: [], removedPackages: [] },
+      feedsUnavailable: toPackages.length === 0
+    }
+
+    if (report.feedsUnavailable) {
+      report.configuration = {
+        addedPackages: [...configuration.addedPackages],
+        removedPackages: [...configuration.removedPackages]
+      }
+      return report
+    }
+
+    const fromIndex = packageManager.buildProviderIndex(fromPackages)
+    const toIndex = packageManager.buildProviderIndex(toPackages)
+    const defaults = new Set(toDefaultPackages)
+
+    for (const name of configuration.addedPackages) {
+      const entry = this.resolve(name, 'added', fromIndex, toIndex)
+      report.entries.push(entry)
+      if (entry.status !== 'missing') {
+        report.configuration.addedPackages.push(entry.status === 'renamed' ? entry.newName! : name)
+      }
+    }
+
+    for (const name of configuration.removedPackages) {
+      const entry = this.resolve(name, 'removed', fromIndex, toIndex)
+      const newName = entry.status === 'renamed' ? entry.newName! : name
+      // Removing a package only means something while it is a default
+      if (!defaults.has(newName)) {
+        entry.status = 'not_default'
+      }
+      report.entries.push(entry)
+      if (entry.status !== 'not_default') {
+        report.configuration.removedPackages.push(newName)
+      }
+    }
+
+    return report
+  }
+
+  getFormat(version: string): PackageFormat {
+    return packageManager.isApkVersion(version) ? 'apk' : 'ipk'
+  }
+
+  private resolve(
+    name: string,
+    action: PackageMigrationEntry['action'],
+    fromIndex: PackageProviderIndex,
+    toIndex: PackageProviderIndex
+  ): PackageMigrationEntry {
+    const fromFeed = fromIndex.byName.get(name)?.source
+    const direct = toIndex.byName.get(name)
+    if (direct) {
+      const moved = !!fromFeed && !!direct.source && fromFeed !== direct.source
+      return { name, action, status: moved ? 'moved' : 'kept', fromFeed, toFeed: direct.source }
+    }
+
+    const renamed = this.findRename(name, toIndex)
+    if (renamed) {
+      return { name, action, status: 'renamed', newName: renamed.name, fromFeed, toFeed: renamed.source }
+    }
+
+    const provider = toIndex.providers.get(name)?.[0]
+    if (provider) {
+      return { name, action, status: 'provided', newName: provider.name, fromFeed, toFeed: provider.source }
+    }
+
+    return { name, action, status: 'missing', fromFeed }
+  }
+
+  /**
+   * A package that replaces the old name, or the same library with or without an ABI suffix
+   */
+  private findRename(name: string, index: PackageProviderIndex): OpenWrtPackage | null {
+    for (const pkg of index.byName.values()) {
+      if (pkg.replaces?.some(replace => replace.name === name)) return pkg
+    }
+
+    if (!name.startsWith('lib')) return null
+
+    const base = name.match(ABI_SUFFIX_PATTERN)?.[1] || name
+    if (base !== name && index.byName.has(base)) {
+      return index.byName.get(base)!
+    }
+
+    for (const [candidate, pkg] of index.byName) {
+      if (candidate.startsWith(base) && /^\d[\d.]*$/.test(candidate.slice(base.length))) return pkg
+    }
+
+    return null
+  }
+}
+
+export const packageMigration = new PackageMigrationService()
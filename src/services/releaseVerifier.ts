@@ -0,0 +1,185 @@
+// Checks a release image folder: sha256sums against profiles.json and the sha256sums signature
+
+import { config, type Config } from '@/config'
+import { mirrorService } from '@/services/mirror'
+import { usign, type UsignPublicKey } from '@/services/usign'
+import type { DeviceImage } from '@/services/api'
+
+export type SignatureStatus =
+  | 'valid' // usign signature verified with a configured release key
+  | 'invalid' // signature does not match the sha256sums file
+  | 'unknown_key' // signed with a key that is not configured
+  | 'unverifiable' // only a GPG signature, or the browser lacks Ed25519
+  | 'no_keys' // no release keys configured
+  | 'unsigned'
+
+export type ChecksumStatus = 'match' | 'mismatch' | 'missing' | 'no_checksum'
+
+export interface ImageChecksumCheck {
+  name: string
+  type: string
+  profileSha256?: string
+  sumsSha256?: string
+  status: ChecksumStatus
+}
+
+export interface SignatureCheck {
+  status: SignatureStatus
+  format?: 'usign' | 'gpg'
+  keyId?: string
+  keyName?: string
+  message?: string
+  messageKey?: string // Translation of message, e.g. "tr-verify-unknown-key"
+}
+
+export interface ReleaseVerification {
+  folder: string
+  hasSums: boolean
+  signature: SignatureCheck
+  images: ImageChecksumCheck[]
+  mismatches: number
+}
+
+export class ReleaseVerifierService {
+  private keys: Array<UsignPublicKey & { name: string }> = []
+  private keysSource: Config['release_keys'] | null = null // Entries the parsed keys were made from
+
+  async verifyFolder(folder: string, images: DeviceImage[], signal?: AbortSignal): Promise<ReleaseVerification> {
+    const sumsBytes = await this.fetchFile(`${folder}/sha256sums`, signal)
+    if (!sumsBytes) {
+      return {
+        folder,
+        hasSums: false,
+        signature: { status: 'unsigned', message: '镜像目录中没有 sha256sums 文件', messageKey: 'tr-verify-no-sums' },
+        images: this.compareImages(images, new Map()),
+        mismatches: 0
+      }
+    }
+
+    const sums = this.parseSums(new TextDecoder().decode(sumsBytes))
+    const checks = this.compareImages(images, sums)
+
+    return {
+      folder,
+      hasSums: true,
+      signature: await this.checkSignature(folder, sumsBytes, signal),
+      images: checks,
+      mismatches: checks.filter(check => check.status === 'mismatch').length
+    }
+  }
+
+  /**
+   * Parse "sha256sum" output; binary mode prefixes file names with "*"
+   */
+  parseSums(text: string): Map<string, string> {
+    const sums = new Map<string, string>()
+    for (const line of text.split('\n')) {
+      const match = line.trim().match(/^([0-9a-fA-F]{64})\s+\*?(.+)$/)
+      if (match) {
+        sums.set(match[2].replace(/^\.\//, ''), match[1].toLowerCase())
+      }
+    }
+    return sums
+  }
+
+  compareImages(images: DeviceImage[], sums: Map<string, string>): ImageChecksumCheck[] {
+    return images.map(image => {
+      const profileSha256 = image.sha256?.toLowerCase()
+      const sumsSha256 = sums.get(image.name)
+
+      let status: ChecksumStatus
+      if (!sumsSha256) {
+        status = 'missing'
+      } else if (!profileSha256) {
+        status = 'no_checksum'
+      } else {
+        status = profileSha256 === sumsSha256 ? 'match' : 'mismatch'
+      }
+
+      return { name: image.name, type: image.type, profileSha256, sumsSha256, status }
+    })
+  }
+
+  private async checkSignature(folder: string, sumsBytes: Uint8Array, signal?: AbortSignal): Promise<SignatureCheck> {
+    const sigBytes = await this.fetchFile(`${folder}/sha256sums.sig`, signal)
+    if (!sigBytes) {
+      const asc = await this.fetchFile(`${folder}/sha256sums.asc`, signal)
+      return asc
+        ? { status: 'unverifiable', format: 'gpg', message: '仅提供 GPG 签名，浏览器中无法验证', messageKey: 'tr-verify-gpg-only' }
+        : { status: 'unsigned', message: 'sha256sums 没有签名', messageKey: 'tr-verify-unsigned' }
+    }
+
+    let signature
+    try {
+      signature = usign.parseSignature(new TextDecoder().decode(sigBytes))
+    } catch (error) {
+      return { status: 'invalid', format: 'usign', message: error instanceof Error ? error.message : String(error) }
+    }
+
+    const keys = this.getKeys()
+    if (keys.length === 0) {
+      return { status: 'no_keys', format: 'usign', keyId: signature.keyId, message: '未配置发布签名公钥', messageKey: 'tr-verify-no-keys' }
+    }
+
+    const key = keys.find(item => item.keyId === signature.keyId)
+    if (!key) {
+      return {
+        status: 'unknown_key',
+        format: 'usign',
+        keyId: signature.keyId,
+        message: '签名所用的公钥不在信任列表中',
+        messageKey: 'tr-verify-unknown-key'
+      }
+    }
+
+    try {
+      const valid = await usign.verify(sumsBytes, signature, key)
+      return {
+        status: valid ? 'valid' : 'invalid',
+        format: 'usign',
+        keyId: key.keyId,
+        keyName: key.name,
+        message: valid ? undefined : 'sha256sums 与签名不符',
+        messageKey: valid ? undefined : 'tr-verify-signature-mismatch'
+      }
+    } catch (error) {
+      // Older browsers do not implement Ed25519 in WebCrypto
+      console.warn('usign verification failed:', error)
+      return {
+        status: 'unverifiable',
+        format: 'usign',
+        keyId: key.keyId,
+        keyName: key.name,
+        message: '浏览器不支持 Ed25519 签名验证',
+        messageKey: 'tr-verify-no-ed25519'
+      }
+    }
+  }
+
+  private getKeys(): Array<UsignPublicKey & { name: string }> {
+    // config.json and query overrides replace the list after startup
+    if (this.keysSource !== config.release_keys) {
+      this.keysSource = config.release_keys
+      this.keys = []
+      for (const entry of config.release_keys || []) {
+        try {
+          this.keys.push({ ...usign.parsePublicKey(entry.key), name: entry.name })
+        } catch (error) {
+          console.warn(`Ignoring release key "${entry.name}":`, error)
+        }
+      }
+    }
+    return this.keys
+  }
+
+  private async fetchFile(url: string, signal?: AbortSignal): Promise<Uint8Array | null> {
+    const response = await mirrorService.fetch(url, { cache: 'no-cache', signal })
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`)
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
+
+export const releaseVerifier = new ReleaseVerifierService()
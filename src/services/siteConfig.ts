@@ -0,0 +1,232 @@
+// Runtime site configuration: config.json and query parameters on top of the compiled defaults
+
+import { config, type Config } from '@/config'
+
+type FieldKind = 'string' | 'boolean' | 'string[]' | 'url' | 'mirrors' | 'keys' | 'providers'
+
+interface FieldSpec {
+  kind: FieldKind
+  // Keys that must not be changed from a link: trusted signing keys and the servers firmware comes from
+  queryOverride?: boolean
+}
+
+export interface SiteConfigResult {
+  source: string | null // URL of the loaded config.json, null when only defaults are used
+  errors: string[]
+  warnings: string[]
+}
+
+const CONFIG_FIELDS: Record<keyof Config, FieldSpec> = {
+  brand_name: { kind: 'string', queryOverride: true },
+  homepage_url: { kind: 'url', queryOverride: true },
+  show_help: { kind: 'boolean', queryOverride: true },
+  versions: { kind: 'string[]', queryOverride: true },
+  default_version: { kind: 'string', queryOverride: true },
+  image_url: { kind: 'url' },
+  mirrors: { kind: 'mirrors' },
+  show_snapshots: { kind: 'boolean', queryOverride: true },
+  info_url: { kind: 'url', queryOverride: true },
+  asu_url: { kind: 'url' },
+  asu_extra_packages: { kind: 'string[]', queryOverride: true },
+  enable_module_management: { kind: 'boolean', queryOverride: true },
+  module_providers: { kind: 'providers' },
+  apk_versions: { kind: 'string[]', queryOverride: true },
+  release_keys: { kind: 'keys' },
+  allow_query_overrides: { kind: 'boolean' }
+}
+
+// Query parameters are namespaced so they cannot clash with app parameters like ?version=
+const QUERY_PREFIX = 'cfg.'
+
+export class SiteConfigService {
+  private result: SiteConfigResult = { source: null, errors: [], warnings: [] }
+
+  getResult(): SiteConfigResult {
+    return this.result
+  }
+
+  /**
+   * Load config.json and query overrides into the shared config object.
+   * Must run before services that read config at construction are imported.
+   */
+  async load(url: string, search = ''): Promise<SiteConfigResult> {
+    const errors: string[] = []
+    const warnings: string[] = []
+    let source: string | null = null
+
+    const fileConfig = await this.fetchConfigFile(url, errors)
+    if (fileConfig) {
+      source = url
+      const validated = this.validate(fileConfig)
+      errors.push(...validated.errors.map(error => `config.json: ${error}`))
+      warnings.push(...validated.warnings.map(warning => `config.json: ${warning}`))
+      Object.assign(config, validated.config)
+    }
+
+    if (config.allow_query_overrides) {
+      const overrides = this.parseQueryOverrides(search)
+      errors.push(...overrides.errors)
+      Object.assign(config, overrides.config)
+    }
+
+    this.result = { source, errors, warnings }
+    errors.forEach(error => console.error(`Site configuration: ${error}`))
+    warnings.forEach(warning => console.warn(`Site configuration: ${warning}`))
+    return this.result
+  }
+
+  /**
+   * Check a parsed config.json against the Config fields. Invalid fields are
+   * reported and dropped so the defaults stay in effect for them.
+   */
+  validate(value: unknown): { config: Partial<Config>; errors: string[]; warnings: string[] } {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const result: Record<string, unknown> = {}
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { config: {}, errors: ['配置必须是 JSON 对象'], warnings }
+    }
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const spec = CONFIG_FIELDS[key as keyof Config]
+      if (!spec) {
+        warnings.push(`未知的配置项 "${key}" 已忽略`)
+        continue
+      }
+
+      const error = this.checkField(spec.kind, fieldValue)
+      if (error) {
+        errors.push(`"${key}" ${error}`)
+        continue
+      }
+      result[key] = spec.kind === 'url' || spec.kind === 'mirrors'
+        ? this.trimUrls(fieldValue)
+        : fieldValue
+    }
+
+    return { config: result as Partial<Config>, errors, warnings }
+  }
+
+  /**
+   * Read ?cfg.<key>=<value> parameters. Lists are comma separated, mirrors are JSON.
+   */
+  parseQueryOverrides(search: string): { config: Partial<Config>; errors: string[] } {
+    const errors: string[] = []
+    const raw: Record<string, unknown> = {}
+
+    for (const [param, value] of new URLSearchParams(search)) {
+      if (!param.startsWith(QUERY_PREFIX)) continue
+
+      const key = param.slice(QUERY_PREFIX.length)
+      const spec = CONFIG_FIELDS[key as keyof Config]
+      if (!spec?.queryOverride) {
+        errors.push(`查询参数 "${param}" 不能覆盖配置`)
+        continue
+      }
+
+      try {
+        raw[key] = this.parseQueryValue(spec.kind, value)
+      } catch {
+        errors.push(`查询参数 "${param}" 的值无法解析`)
+      }
+    }
+
+    const validated = this.validate(raw)
+    return { config: validated.config, errors: [...errors, ...validated.errors.map(error => `查询参数: ${error}`)] }
+  }
+
+  private async fetchConfigFile(url: string, errors: string[]): Promise<unknown | null> {
+    let response: Response
+    try {
+      response = await fetch(url, { cache: 'no-cache' })
+    } catch (error) {
+      errors.push(`无法加载 ${url}: ${error instanceof Error ? error.message : error}`)
+      return null
+    }
+
+    // config.json is optional, the compiled defaults apply without it
+    if (response.status === 404) return null
+    if (!response.ok) {
+      errors.push(`无法加载 ${url}: HTTP ${response.status}`)
+      return null
+    }
+
+    try {
+      return await response.json()
+    } catch (error) {
+      errors.push(`${url} 不是有效的 JSON: ${error instanceof Error ? error.message : error}`)
+      return null
+    }
+  }
+
+  private checkField(kind: FieldKind, value: unknown): string | null {
+    switch (kind) {
+      case 'string':
+        return typeof value === 'string' && value.trim() ? null : '必须是非空字符串'
+      case 'boolean':
+        return typeof value === 'boolean' ? null : '必须是 true 或 false'
+      case 'string[]':
+        return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : '必须是字符串数组'
+      case 'url':
+        return typeof value === 'string' && this.isUrl(value) ? null : '必须是 http(s) 地址或相对路径'
+      case 'mirrors':
+        return Array.isArray(value) && value.every(item =>
+          item && typeof item.name === 'string' && typeof item.url === 'string' && this.isUrl(item.url)
+        ) ? null : '必须是 { "name": string, "url": string } 数组'
+      case 'keys':
+        return Array.isArray(value) && value.every(item =>
+          item && typeof item.name === 'string' && typeof item.key === 'string'
+        ) ? null : '必须是 { "name": string, "key": string } 数组'
+      case 'providers':
+        return this.isProviderMap(value) ? null : '必须是 { "github" | "gitlab" | "gitea" | "archive": { "hosts"?: string[], "proxy"?: string } } 对象'
+    }
+  }
+
+  private parseQueryValue(kind: FieldKind, value: string): unknown {
+    switch (kind) {
+      case 'boolean':
+        if (value === 'true' || value === '1') return true
+        if (value === 'false' || value === '0') return false
+        return value
+      case 'string[]':
+        return value.split(',').map(item => item.trim()).filter(Boolean)
+      case 'mirrors':
+      case 'keys':
+      case 'providers':
+        return JSON.parse(value)
+      default:
+        return value
+    }
+  }
+
+  private isProviderMap(value: unknown): boolean {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+    return Object.entries(value).every(([provider, options]) =>
+      ['github', 'gitlab', 'gitea', 'archive'].includes(provider)
+      && options && typeof options === 'object'
+      && (options.hosts === undefined || (Array.isArray(options.hosts) && options.hosts.every((host: unknown) => typeof host === 'string')))
+      && (options.proxy === undefined || options.proxy === '' || (typeof options.proxy === 'string' && this.isUrl(options.proxy)))
+    )
+  }
+
+  private isUrl(value: string): boolean {
+    if (/^(\.{1,2})?\//.test(value)) return true
+    try {
+      const url = new URL(value)
+      return url.protocol === 'https:' || url.protocol === 'http:'
+    } catch {
+      return false
+    }
+  }
+
+  private trimUrls(value: unknown): unknown {
+    if (typeof value === 'string') return value.replace(/\/+$/, '')
+    if (Array.isArray(value)) {
+      return value.map(item => ({ ...item, url: String(item.url).replace(/\/+$/, '') }))
+    }
+    return value
+  }
+}
+
+export const siteConfig = new SiteConfigService()
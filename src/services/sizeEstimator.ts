@@ -0,0 +1,182 @@
+// Firmware image size estimation against the device flash budget
+
+import type { ResolutionResult } from '@/services/dependencyResolver'
+import type { DeviceProfile } from '@/services/api'
+import type { OpenWrtPackage } from '@/types/package'
+
+export interface SizeEstimate {
+  packageCount: number
+  downloadSize: number // Sum of package archive sizes (bytes)
+  installedSize: number // Sum of unpacked sizes (bytes)
+  rootfsSize: number // Estimated compressed rootfs (bytes)
+  kernelSize: number // Estimated kernel image (bytes)
+  totalSize: number // Estimated image size (bytes)
+  unknownPackages: string[] // Packages without size information in the feeds
+}
+
+export interface FlashBudget {
+  flashSizeMb: number
+  usableBytes: number // Space available for kernel + rootfs + minimal overlay
+  source: 'user' | 'profile'
+}
+
+export type FitStatus = 'ok' | 'tight' | 'overflow' | 'unknown'
+
+export interface SizeCheck {
+  estimate: SizeEstimate
+  budget: FlashBudget | null
+  usage: number | null // Estimated image size / usable bytes
+  status: FitStatus
+  rootfsStatus: FitStatus // Unpacked content vs. rootfs_size_mb (ext4/x86 style images)
+}
+
+const MB = 1024 * 1024
+
+// Package archives are gzip-compressed; squashfs with xz usually packs a bit tighter
+const SQUASHFS_RATIO = 0.85
+// Fallback when only the unpacked size is known
+const INSTALLED_RATIO = 0.4
+// Typical compressed kernel + dtb for small targets
+const KERNEL_ESTIMATE = 3 * MB
+// Bootloader, config/art partitions and the minimal jffs2 overlay on NOR flash
+const RESERVED_BYTES = 768 * 1024
+// Above this share of the budget the image probably fits but leaves no overlay space
+const TIGHT_THRESHOLD = 0.9
+
+export const FLASH_SIZE_OPTIONS = [4, 8, 16, 32, 64, 128, 256, 512]
+
+export class ImageSizeEstimatorService {
+  private readonly STORAGE_KEY = 'openwrt-flash-budgets'
+
+  /**
+   * Estimate the image size for a resolved package set
+   */
+  estimate(resolution: ResolutionResult | null, packageNames: string[], packages: OpenWrtPackage[]): SizeEstimate {
+    const installSet: OpenWrtPackage[] = []
+    const unknownPackages: string[] = []
+
+    if (resolution) {
+      installSet.push(...resolution.resolved.map(pkg => pkg.package))
+    } else {
+      // Without a resolution only the explicitly listed packages are known
+      for (const name of packageNames) {
+        if (name.startsWith('-')) continue
+        const pkg = packages.find(p => p.name === name)
+        if (pkg) {
+          installSet.push(pkg)
+        } else {
+          unknownPackages.push(name)
+        }
+      }
+    }
+
+    let downloadSize = 0
+    let installedSize = 0
+    let rootfsSize = 0
+    for (const pkg of installSet) {
+      downloadSize += pkg.size || 0
+      installedSize += pkg.installedSize || 0
+
+      if (pkg.size) {
+        rootfsSize += pkg.size * SQUASHFS_RATIO
+      } else if (pkg.installedSize) {
+        rootfsSize += pkg.installedSize * INSTALLED_RATIO
+      } else {
+        unknownPackages.push(pkg.name)
+      }
+    }
+
+    rootfsSize = Math.round(rootfsSize)
+    return {
+      packageCount: installSet.length,
+      downloadSize,
+      installedSize,
+      rootfsSize,
+      kernelSize: KERNEL_ESTIMATE,
+      totalSize: rootfsSize + KERNEL_ESTIMATE,
+      unknownPackages
+    }
+  }
+
+  /**
+   * Guess the flash size from a size suffix in the profile id, e.g. "hiwifi_hc5761-8m"
+   */
+  detectFlashSizeMb(profile: DeviceProfile): number | null {
+    const match = profile.id.match(/[-_](\d+)m(?:b)?(?=$|[-_])/i)
+    if (!match) return null
+
+    const size = parseInt(match[1], 10)
+    return FLASH_SIZE_OPTIONS.includes(size) ? size : null
+  }
+
+  /**
+   * Get the flash budget for a device, a user override wins over detection
+   */
+  getBudget(profile: DeviceProfile): FlashBudget | null {
+    const userSize = this.getUserFlashSize(profile.id)
+    if (userSize) return this.toBudget(userSize, 'user')
+
+    const detected = this.detectFlashSizeMb(profile)
+    return detected ? this.toBudget(detected, 'profile') : null
+  }
+
+  /**
+   * Compare an estimate with the flash budget and the requested rootfs size
+   */
+  check(estimate: SizeEstimate, budget: FlashBudget | null, rootfsSizeMb?: number | null): SizeCheck {
+    let usage: number | null = null
+    let status: FitStatus = 'unknown'
+
+    if (budget && estimate.packageCount > 0) {
+      usage = estimate.totalSize / budget.usableBytes
+      status = this.getStatus(usage)
+    }
+
+    let rootfsStatus: FitStatus = 'unknown'
+    if (rootfsSizeMb && estimate.installedSize > 0) {
+      rootfsStatus = this.getStatus(estimate.installedSize / (rootfsSizeMb * MB))
+    }
+
+    return { estimate, budget, usage, status, rootfsStatus }
+  }
+
+  getUserFlashSize(profileId: string): number | null {
+    try {
+      const data = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}')
+      const value = data[profileId]
+      return typeof value === 'number' ? value : null
+    } catch {
+      return null
+    }
+  }
+
+  setUserFlashSize(profileId: string, sizeMb: number | null): void {
+    try {
+      const data = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}')
+      if (sizeMb) {
+        data[profileId] = sizeMb
+      } else {
+        delete data[profileId]
+      }
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data))
+    } catch (error) {
+      console.error('Failed to save flash size:', error)
+    }
+  }
+
+  private toBudget(flashSizeMb: number, source: FlashBudget['source']): FlashBudget {
+    return {
+      flashSizeMb,
+      usableBytes: Math.max(flashSizeMb * MB - RESERVED_BYTES, 0),
+      source
+    }
+  }
+
+  private getStatus(usage: number): FitStatus {
+    if (usage > 1) return 'overflow'
+    if (usage > TIGHT_THRESHOLD) return 'tight'
+    return 'ok'
+  }
+}
+
+export const imageSizeEstimator = new ImageSizeEstimatorService()
@@ -0,0 +1,75 @@
+// usign (OpenWrt signify) public keys and signatures, verified with WebCrypto Ed25519
+
+export interface UsignPublicKey {
+  keyId: string // 16 hex digits, as printed by "usign -F"
+  comment: string
+  publicKey: Uint8Array // 32-byte Ed25519 key
+}
+
+export interface UsignSignature {
+  keyId: string
+  comment: string
+  signature: Uint8Array // 64-byte Ed25519 signature
+}
+
+// Binary layout: "Ed" algorithm tag, 8-byte key number, key or signature
+const PKALG = 'Ed'
+const KEYNUM_SIZE = 8
+const PUBLIC_KEY_SIZE = 32
+const SIGNATURE_SIZE = 64
+
+export class UsignService {
+  parsePublicKey(text: string): UsignPublicKey {
+    const { comment, data } = this.parseFile(text, 2 + KEYNUM_SIZE + PUBLIC_KEY_SIZE, 'public key')
+    return {
+      keyId: this.toHex(data.subarray(2, 2 + KEYNUM_SIZE)),
+      comment,
+      publicKey: data.slice(2 + KEYNUM_SIZE)
+    }
+  }
+
+  parseSignature(text: string): UsignSignature {
+    const { comment, data } = this.parseFile(text, 2 + KEYNUM_SIZE + SIGNATURE_SIZE, 'signature')
+    return {
+      keyId: this.toHex(data.subarray(2, 2 + KEYNUM_SIZE)),
+      comment,
+      signature: data.slice(2 + KEYNUM_SIZE)
+    }
+  }
+
+  /**
+   * Check a detached signature over the complete message, as "usign -V" does
+   */
+  async verify(message: Uint8Array, signature: UsignSignature, key: UsignPublicKey): Promise<boolean> {
+    if (signature.keyId !== key.keyId) return false
+
+    const cryptoKey = await crypto.subtle.importKey('raw', key.publicKey, { name: 'Ed25519' }, false, ['verify'])
+    return crypto.subtle.verify({ name: 'Ed25519' }, cryptoKey, signature.signature, message)
+  }
+
+  private parseFile(text: string, size: number, kind: string): { comment: string; data: Uint8Array } {
+    const lines = text.trim().split(/\r?\n/)
+    // The comment line is optional when a key is pasted on its own
+    const commentLine = lines[0].startsWith('untrusted comment:') ? lines.shift() || '' : ''
+    const encoded = lines.join('').trim()
+
+    let data: Uint8Array
+    try {
+      data = Uint8Array.from(atob(encoded), char => char.charCodeAt(0))
+    } catch {
+      throw new Error(`Invalid usign ${kind}: not base64`)
+    }
+
+    if (data.length !== size || String.fromCharCode(data[0], data[1]) !== PKALG) {
+      throw new Error(`Invalid usign ${kind}`)
+    }
+
+    return { comment: commentLine.replace('untrusted comment:', '').trim(), data }
+  }
+
+  private toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+}
+
+export const usign = new UsignService()
@@ -0,0 +1,146 @@
+// Compares the profile and package feeds of one device in two releases
+
+import { packageManager } from '@/services/packageManager'
+import { feedLoader } from '@/services/feedLoader'
+import type { DeviceProfile } from '@/services/api'
+import type { OpenWrtPackage } from '@/types/package'
+
+export interface ListDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+}
+
+export interface ReleaseSummary {
+  version: string
+  versionCode: string
+  buildAt: string
+  kernel: string
+  vermagic: string
+  target: string
+  arch: string
+}
+
+export interface PackageSizeChange {
+  name: string
+  fromVersion?: string
+  toVersion?: string
+  fromSize?: number // Package archive size (bytes), missing when the package is not in the feeds
+  toSize?: number
+  delta: number
+}
+
+export interface VersionComparison {
+  from: ReleaseSummary
+  to: ReleaseSummary
+  kernelChanged: boolean
+  defaultPackages: ListDiff
+  devicePackages: ListDiff
+  imageTypes: ListDiff
+}
+
+export class VersionCompareService {
+  compareProfiles(from: DeviceProfile, to: DeviceProfile): VersionComparison {
+    const fromSummary = this.summarize(from)
+    const toSummary = this.summarize(to)
+
+    return {
+      from: fromSummary,
+      to: toSummary,
+      kernelChanged: fromSummary.kernel !== toSummary.kernel || fromSummary.vermagic !== toSummary.vermagic,
+      defaultPackages: this.diffLists(from.default_packages || [], to.default_packages || []),
+      devicePackages: this.diffLists(from.device_packages || [], to.device_packages || []),
+      imageTypes: this.diffLists(
+        (from.images || []).map(image => image.type),
+        (to.images || []).map(image => image.type)
+      )
+    }
+  }
+
+  diffLists(from: string[], to: string[]): ListDiff {
+    const fromSet = new Set(from)
+    const toSet = new Set(to)
+    return {
+      added: [...toSet].filter(item => !fromSet.has(item)).sort(),
+      removed: [...fromSet].filter(item => !toSet.has(item)).sort(),
+      unchanged: [...toSet].filter(item => fromSet.has(item)).sort()
+    }
+  }
+
+  /**
+   * Packages worth comparing: everything the two profiles install by default
+   */
+  getKeyPackages(from: DeviceProfile, to: DeviceProfile): string[] {
+    const names = new Set<string>()
+    for (const name of [
+      ...(from.default_packages || []),
+      ...(from.device_packages || []),
+      ...(to.default_packages || []),
+      ...(to.device_packages || [])
+    ]) {
+      // device_packages may remove defaults with a leading "-"
+      if (!name.startsWith('-')) names.add(name)
+    }
+    return [...names].sort()
+  }
+
+  /**
+   * Size changes of packages between two feed sets, largest change first
+   */
+  compareSizes(names: string[], fromPackages: OpenWrtPackage[], toPackages: OpenWrtPackage[]): PackageSizeChange[] {
+    const fromIndex = this.indexPackages(fromPackages)
+    const toIndex = this.indexPackages(toPackages)
+
+    return names
+      .map(name => {
+        const fromPkg = fromIndex.get(name)
+        const toPkg = toIndex.get(name)
+        return {
+          name,
+          fromVersion: fromPkg?.version,
+          toVersion: toPkg?.version,
+          fromSize: fromPkg?.size,
+          toSize: toPkg?.size,
+          delta: (toPkg?.size || 0) - (fromPkg?.size || 0)
+        }
+      })
+      .filter(change => change.fromSize !== undefined || change.toSize !== undefined)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Load all feeds of a device in one release, through the feed cache
+   */
+  async loadPackages(version: string, profile: DeviceProfile, signal?: AbortSignal): Promise<OpenWrtPackage[]> {
+    const feedUrls = packageManager.generateFeedUrls(version, profile.arch_packages, profile.target, profile.linux_kernel)
+    const feedNames = packageManager.getFeedNames(profile.target, !!profile.linux_kernel)
+
+    const feeds = await Promise.all(
+      feedUrls.map((url, index) => feedLoader.loadCachedPackages(url, feedNames[index], signal))
+    )
+    return feeds.flat()
+  }
+
+  private summarize(profile: DeviceProfile): ReleaseSummary {
+    return {
+      version: profile.version_number,
+      versionCode: profile.version_code,
+      buildAt: profile.build_at,
+      kernel: profile.linux_kernel ? `${profile.linux_kernel.version}-${profile.linux_kernel.release}` : '',
+      vermagic: profile.linux_kernel?.vermagic || '',
+      target: profile.target,
+      arch: profile.arch_packages
+    }
+  }
+
+  private indexPackages(packages: OpenWrtPackage[]): Map<string, OpenWrtPackage> {
+    const index = new Map<string, OpenWrtPackage>()
+    for (const pkg of packages) {
+      // Keep the first occurrence, feeds are listed in priority order
+      if (!index.has(pkg.name)) index.set(pkg.name, pkg)
+    }
+    return index
+  }
+}
+
+export const versionCompare = new VersionCompareService()
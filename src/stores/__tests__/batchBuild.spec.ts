@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+
+import { useBatchBuildStore } from '../batchBuild'
+import { useBuildStore } from '../build'
+import { useFirmwareStore, type ProcessedDevice } from '../firmware'
+import { feedLoader } from '@/services/feedLoader'
+import { config } from '@/config'
+import type { DeviceProfile } from '@/services/api'
+import type { BuildRecord } from '@/types/build'
+import type { OpenWrtPackage } from '@/types/package'
+
+function device(id: string, target: string, defaults: string[]): ProcessedDevice {
+  const profile = {
+    id,
+    target,
+    version_number: '24.10.0',
+    arch_packages: target === 'ath79/generic' ? 'mips_24kc' : 'aarch64_cortex-a53',
+    device_packages: [],
+    default_packages: defaults,
+    linux_kernel: { version: '6.6.73', release: '1', vermagic: target }
+  } as unknown as DeviceProfile
+  return { id, target, title: id, profile }
+}
+
+const pkg = (name: string) => ({ name, version: '1' }) as OpenWrtPackage
+
+describe('batch build store', () => {
+  let submitted: Array<{ profile: string; packages: string[] }>
+  const originalExtraPackages = config.asu_extra_packages
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    submitted = []
+    config.asu_extra_packages = ['luci-i18n-base-zh-cn']
+
+    const firmware = useFirmwareStore()
+    vi.spyOn(firmware, 'loadDeviceProfile').mockImplementation(async (item: ProcessedDevice) => {
+      return item.id === 'missing' ? null : item.profile
+    })
+
+    const builds = useBuildStore()
+    vi.spyOn(builds, 'submitBuild').mockImplementation(async request => {
+      submitted.push({ profile: request.profile, packages: request.packages })
+      return { id: `build_${request.profile}` } as BuildRecord
+    })
+
+    // mediatek feeds lack "htop", ath79 feeds cannot be loaded
+    vi.spyOn(feedLoader, 'loadCachedPackages').mockImplementation(async url => {
+      if (url.includes('mips_24kc') || url.includes('ath79')) throw new Error('offline')
+      return [pkg('luci'), pkg('wireguard-tools')]
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    config.asu_extra_packages = originalExtraPackages
+    vi.restoreAllMocks()
+  })
+
+  it('submits one build per device and records per-device results', async () => {
+    const batch = useBatchBuildStore()
+    await batch.runBatch([
+      device('glinet_gl-mt6000', 'mediatek/filogic', ['dnsmasq', 'ppp']),
+      device('missing', 'mediatek/filogic', []),
+      device('tplink_archer-c7-v5', 'ath79/generic', ['dnsmasq'])
+    ], { added: ['luci', 'htop'], removed: ['ppp'] }, {})
+
+    expect(batch.jobs.map(job => job.status)).toEqual(['submitted', 'error', 'submitted'])
+    expect(batch.jobs[0]).toMatchObject({ buildId: 'build_glinet_gl-mt6000', droppedPackages: ['htop'] })
+    expect(batch.jobs[2]).toMatchObject({ indexUnavailable: true, droppedPackages: [] })
+    expect(submitted).toEqual([
+      // Removals of defaults stay in the request, ASU would install the defaults again otherwise
+      { profile: 'glinet_gl-mt6000', packages: ['-ppp', 'dnsmasq', 'luci', 'luci-i18n-base-zh-cn', 'ppp'] },
+      { profile: 'tplink_archer-c7-v5', packages: ['dnsmasq', 'htop', 'luci', 'luci-i18n-base-zh-cn'] }
+    ])
+    expect(batch.isRunning).toBe(false)
+    // Submitted builds count as running until their records finish
+    expect(batch.summary).toEqual({ total: 3, succeeded: 0, failed: 1, running: 2 })
+    expect(batch.progress).toBe(33)
+  })
+
+  it('cancels the devices that were not started yet', async () => {
+    const batch = useBatchBuildStore()
+    const run = batch.runBatch([
+      device('glinet_gl-mt6000', 'mediatek/filogic', []),
+      device('bananapi_bpi-r4', 'mediatek/filogic', [])
+    ], { added: [], removed: [] }, {})
+
+    batch.cancelBatch()
+    await run
+
+    expect(batch.jobs.map(job => job.status)).toEqual(['submitted', 'cancelled'])
+    expect(batch.summary).toEqual({ total: 2, succeeded: 0, failed: 0, running: 1 })
+    expect(batch.progress).toBe(50)
+  })
+})
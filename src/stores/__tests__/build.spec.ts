@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+
+import { useBuildStore } from '../build'
+import { AsuService } from '@/services/asu'
+import { asuBuildTracker, type TrackerUpdate } from '@/services/asuBuildTracker'
+import { buildHistory } from '@/services/buildHistory'
+
+const REQUEST = { target: 'ath79/generic', profile: 'tplink_archer-c7-v5', packages: ['luci'], version: '24.10.0' }
+
+function update(state: TrackerUpdate['state'], httpStatus: number, imagebuilderStatus: string, progress: number): TrackerUpdate {
+  return {
+    httpStatus,
+    state,
+    response: { request_hash: 'abc', imagebuilder_status: imagebuilderStatus } as TrackerUpdate['response'],
+    progress
+  }
+}
+
+describe('build store', () => {
+  let onUpdate: (update: TrackerUpdate) => void
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    setActivePinia(createPinia())
+    localStorage.clear()
+    vi.spyOn(AsuService.prototype, 'requestBuild').mockResolvedValue({ request_hash: 'abc', status: 'requested' } as never)
+    vi.spyOn(asuBuildTracker, 'track').mockImplementation((_hash, options = {}) => {
+      onUpdate = options.onUpdate!
+      return new Promise(() => {})
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('saves status changes at once and throttles progress updates', async () => {
+    const save = vi.spyOn(buildHistory, 'save')
+    const store = useBuildStore()
+    await store.submitBuild(REQUEST, 'TP-Link Archer C7 v5')
+    save.mockClear()
+
+    onUpdate(update('building', 202, 'download_imagebuilder', 20))
+    expect(save).toHaveBeenCalledTimes(1) // requested -> building
+
+    onUpdate(update('building', 202, 'unpack_imagebuilder', 30))
+    onUpdate(update('building', 202, 'building_image', 75))
+    expect(save).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(5000)
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(buildHistory.load()[0]).toMatchObject({ status: 'building', progress: 75 })
+
+    onUpdate(update('success', 200, 'done', 100))
+    expect(save).toHaveBeenCalledTimes(3)
+    expect(buildHistory.load()[0]).toMatchObject({ status: 'success', progress: 100 })
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+
+import { useI18nStore } from '../i18n'
+
+const LANGS: Record<string, Record<string, string>> = {
+  'pt-br': { 'tr-title': 'Seletor de firmware' },
+  pt: { 'tr-title': 'Seletor', 'tr-load': 'Transferir firmware' },
+  de: { 'tr-title': 'Firmware-Auswahl' },
+  en: { 'tr-title': 'Firmware Selector', 'tr-load': 'Download firmware', 'tr-module-required': '{name} is required' }
+}
+
+describe('i18n store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const lang = url.replace(/^\/langs\/|\.json$/g, '')
+      return LANGS[lang]
+        ? new Response(JSON.stringify(LANGS[lang]))
+        : new Response('', { status: 404 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('falls back to the base language, then English', async () => {
+    const i18n = useI18nStore()
+    await i18n.changeLanguage('pt-br')
+
+    expect(i18n.t('tr-title')).toBe('Seletor de firmware')
+    expect(i18n.t('tr-load')).toBe('Transferir firmware')
+    expect(i18n.t('tr-module-required', '{name} 是必填项')).toBe('{name} is required')
+  })
+
+  it('uses English for keys a language lacks', async () => {
+    const i18n = useI18nStore()
+    await i18n.changeLanguage('de')
+
+    expect(i18n.t('tr-title')).toBe('Firmware-Auswahl')
+    expect(i18n.t('tr-load')).toBe('Download firmware')
+    expect(i18n.t('tr-missing', 'fallback')).toBe('fallback')
+  })
+})
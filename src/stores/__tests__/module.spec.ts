@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+
+import { useModuleStore } from '../module'
+import { moduleCache, type ModuleArchiveEntry, type ModuleSourceRecord } from '@/services/moduleCache'
+import { config } from '@/config'
+import type { Module, ModuleSource } from '@/types/module'
+
+function record(id: string, order: number): ModuleSourceRecord {
+  return { id, name: id, url: `https://github.com/${id}`, provider: 'github', ref: 'main', revision: `rev-${id}`, order }
+}
+
+describe('module store', () => {
+  const originalEnabled = config.enable_module_management
+  let saved: ModuleSource[][]
+
+  beforeEach(() => {
+    config.enable_module_management = true
+    setActivePinia(createPinia())
+    saved = []
+
+    vi.spyOn(moduleCache, 'loadSources').mockResolvedValue([record('a/modules', 0), record('b/modules', 1)])
+    vi.spyOn(moduleCache, 'getArchive').mockImplementation(async url => ({ url, modules: [] }) as unknown as ModuleArchiveEntry)
+    vi.spyOn(moduleCache, 'saveSources').mockImplementation(async sources => {
+      saved.push([...sources])
+    })
+  })
+
+  afterEach(() => {
+    config.enable_module_management = originalEnabled
+    vi.restoreAllMocks()
+  })
+
+  it('keeps stored sources that a configuration does not list', async () => {
+    const store = useModuleStore()
+    await store.restoreSources([{ id: 'b/modules', name: 'b', url: 'https://github.com/b/modules', provider: 'github', ref: 'main' }])
+
+    expect(store.sources.map(source => source.id)).toEqual(['b/modules', 'a/modules'])
+    expect(saved.at(-1)?.map(source => source.id)).toEqual(['b/modules', 'a/modules'])
+  })
+
+  it('starts boolean parameters without a default switched off', async () => {
+    const module: Module = {
+      id: 'wifi',
+      definition: {
+        name: 'wifi', version: '1.0', description: { en: 'wifi' }, author: '', email: '', license: 'MIT', tags: [], category: 'network',
+        parameterized_files: [{
+          file: 'files/etc/config/wireless',
+          parameters: [{ name: 'enabled', type: 'boolean', required: true, description: { en: 'Enable' } }]
+        }]
+      },
+      files: [],
+      readme: { en: '' }
+    }
+    const store = useModuleStore()
+    await store.ready
+    store.sources = [{ id: 'a/modules', name: 'a', url: 'https://github.com/a/modules', ref: 'main', modules: [module] }]
+
+    store.selectModule('a/modules', 'wifi')
+
+    expect(store.getModuleSelection('a/modules', 'wifi')?.parameters).toEqual({ 'files/etc/config/wireless:enabled': '0' })
+    expect(store.validateModuleSelection('a/modules', 'wifi')).toEqual({ isValid: true, errors: [] })
+  })
+})
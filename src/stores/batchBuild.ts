@@ -0,0 +1,202 @@
+// Batch builds: one ASU request per device from a shared configuration
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { AsuService, type AsuBuildRequest } from '@/services/asu'
+import { packageManager } from '@/services/packageManager'
+import { feedLoader } from '@/services/feedLoader'
+import { config } from '@/config'
+import { useFirmwareStore, type ProcessedDevice } from '@/stores/firmware'
+import { useBuildStore } from '@/stores/build'
+import type { DeviceProfile } from '@/services/api'
+import type { OpenWrtPackage } from '@/types/package'
+import type { BatchJob, BatchPackageSelection, SharedBuildOptions } from '@/types/build'
+
+export const useBatchBuildStore = defineStore('batchBuild', () => {
+  const firmwareStore = useFirmwareStore()
+  const buildStore = useBuildStore()
+  const asuService = new AsuService()
+
+  // State
+  const jobs = ref<BatchJob[]>([])
+  const isRunning = ref(false)
+  const cancelRequested = ref(false)
+
+  // Computed
+  const jobBuilds = computed(() => {
+    return jobs.value.map(job => ({
+      job,
+      build: job.buildId ? buildStore.getBuild(job.buildId) || null : null
+    }))
+  })
+
+  const summary = computed(() => {
+    let succeeded = 0
+    let failed = 0
+    let running = 0
+    for (const { job, build } of jobBuilds.value) {
+      if (job.status === 'error') {
+        failed++
+      } else if (build?.status === 'success' || build?.status === 'no_sysupgrade') {
+        succeeded++
+      } else if (build?.status === 'failure') {
+        failed++
+      } else if (job.status !== 'cancelled') {
+        running++
+      }
+    }
+    return { total: jobs.value.length, succeeded, failed, running }
+  })
+
+  const progress = computed(() => {
+    const { total, running } = summary.value
+    return total > 0 ? Math.round((total - running) / total * 100) : 0
+  })
+
+  // Actions
+  /**
+   * Submit one build per device; packages are filtered to what each target's feeds provide
+   */
+  async function runBatch(
+    devices: ProcessedDevice[],
+    selection: BatchPackageSelection,
+    options: SharedBuildOptions
+  ): Promise<void> {
+    if (isRunning.value) return
+
+    isRunning.value = true
+    cancelRequested.value = false
+    jobs.value = devices.map(device => ({
+      deviceTitle: device.title,
+      deviceId: device.id,
+      target: device.target,
+      status: 'pending',
+      droppedPackages: []
+    }))
+
+    // Devices of the same target share feeds
+    const feedPackages = new Map<string, Promise<OpenWrtPackage[] | null>>()
+
+    try {
+      for (let i = 0; i < devices.length; i++) {
+        const job = jobs.value[i]
+        if (cancelRequested.value) {
+          job.status = 'cancelled'
+          continue
+        }
+
+        job.status = 'preparing'
+        try {
+          const profile = await firmwareStore.loadDeviceProfile(devices[i])
+          if (!profile) {
+            throw new Error(`设备配置 ${devices[i].id} 不存在`)
+          }
+
+          const feedKey = `${profile.arch_packages}|${devices[i].target}|${profile.linux_kernel?.vermagic || ''}`
+          if (!feedPackages.has(feedKey)) {
+            feedPackages.set(feedKey, loadTargetPackages(profile, devices[i].target))
+          }
+          const available = await feedPackages.get(feedKey)!
+
+          const request = buildRequest(devices[i], profile, selection, options, available, job)
+          const record = await buildStore.submitBuild(request, devices[i].title, false)
+          job.buildId = record.id
+          job.status = 'submitted'
+        } catch (error) {
+          job.status = 'error'
+          job.error = error instanceof Error ? error.message : String(error)
+        }
+      }
+    } finally {
+      isRunning.value = false
+    }
+  }
+
+  function cancelBatch(): void {
+    if (isRunning.value) {
+      cancelRequested.value = true
+    }
+  }
+
+  function clearJobs(): void {
+    if (isRunning.value) return
+    jobs.value = []
+  }
+
+  function buildRequest(
+    device: ProcessedDevice,
+    profile: DeviceProfile,
+    selection: BatchPackageSelection,
+    options: SharedBuildOptions,
+    available: OpenWrtPackage[] | null,
+    job: BatchJob
+  ): AsuBuildRequest {
+    const defaultPackages = profile.default_packages || []
+    let added = selection.added.filter(pkg => !defaultPackages.includes(pkg))
+
+    if (available) {
+      const filtered = packageManager.filterAvailablePackages(added, available)
+      added = filtered.available
+      job.droppedPackages = filtered.missing
+    } else {
+      job.indexUnavailable = true
+    }
+
+    // Removals only apply to packages this device installs by default
+    const removals = selection.removed
+      .filter(pkg => defaultPackages.includes(pkg))
+      .map(pkg => `-${pkg}`)
+
+    return {
+      ...JSON.parse(JSON.stringify(options)),
+      target: device.target,
+      profile: device.id,
+      version: profile.version_number,
+      packages: asuService.buildPackagesList(
+        profile.device_packages || [],
+        defaultPackages,
+        [],
+        // Like the single build: "-pkg" entries must reach ASU, which merges the defaults back in otherwise
+        [...(config.asu_extra_packages || []), ...added, ...removals]
+      )
+    }
+  }
+
+  /**
+   * Load every feed of a target, null when any feed is unavailable so nothing is dropped by mistake
+   */
+  async function loadTargetPackages(profile: DeviceProfile, target: string): Promise<OpenWrtPackage[] | null> {
+    const feedUrls = packageManager.generateFeedUrls(
+      firmwareStore.currentVersion,
+      profile.arch_packages,
+      target,
+      profile.linux_kernel
+    )
+
+    const feedNames = packageManager.getFeedNames(target, !!profile.linux_kernel)
+
+    try {
+      const feeds = await Promise.all(feedUrls.map((url, index) => feedLoader.loadCachedPackages(url, feedNames[index])))
+      return feeds.flat()
+    } catch (error) {
+      console.warn(`Package feeds for ${target} unavailable, packages are not filtered:`, error)
+      return null
+    }
+  }
+
+  return {
+    // State
+    jobs,
+    isRunning,
+
+    // Computed
+    jobBuilds,
+    summary,
+    progress,
+
+    // Actions
+    runBatch,
+    cancelBatch,
+    clearJobs
+  }
+})
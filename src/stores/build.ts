@@ -0,0 +1,268 @@
+// Build queue and history store
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { AsuService, type AsuBuildRequest, type AsuStatusResponse } from '@/services/asu'
+import { asuBuildTracker, AsuTrackerError, type TrackerUpdate } from '@/services/asuBuildTracker'
+import { buildHistory } from '@/services/buildHistory'
+import { buildLog } from '@/services/buildLog'
+import { config } from '@/config'
+import type { BuildImage, BuildRecord, BuildState } from '@/types/build'
+
+// Progress updates arrive every few seconds while building, they are saved at most this often
+const PERSIST_INTERVAL = 5000
+
+export const useBuildStore = defineStore('build', () => {
+  const asuService = new AsuService()
+  const trackers = new Map<string, AbortController>()
+  let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+  // State
+  const builds = ref<BuildRecord[]>(buildHistory.load())
+  const activeBuildId = ref<string | null>(null)
+
+  // Computed
+  const activeBuild = computed(() => {
+    return builds.value.find(build => build.id === activeBuildId.value) || null
+  })
+
+  const pendingBuilds = computed(() => {
+    return builds.value.filter(build => isPending(build))
+  })
+
+  // Actions
+  function isPending(build: BuildRecord): boolean {
+    return build.status === 'requested' || build.status === 'building'
+  }
+
+  async function submitBuild(request: AsuBuildRequest, deviceTitle: string, activate = true): Promise<BuildRecord> {
+    const now = new Date().toISOString()
+    const record: BuildRecord = {
+      id: buildHistory.generateId(),
+      request,
+      status: 'requested',
+      transitions: [{ status: 'requested', at: now }],
+      deviceTitle,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    // Request failures throw without creating a history entry
+    const response = await asuService.requestBuild(request)
+
+    builds.value.unshift(record)
+    if (activate) {
+      activeBuildId.value = record.id
+    }
+    applyResponse(record.id, response)
+    persist()
+    if (response.request_hash) {
+      startTracking(record.id)
+    }
+    return getBuild(record.id)!
+  }
+
+  /**
+   * Re-submit the request of an earlier build as a new history entry
+   */
+  async function resubmitBuild(id: string): Promise<BuildRecord | null> {
+    const build = getBuild(id)
+    if (!build) return null
+    return submitBuild(JSON.parse(JSON.stringify(build.request)), build.deviceTitle)
+  }
+
+  /**
+   * Continue polling builds that were still running when the page was closed
+   */
+  function resumePendingBuilds(): void {
+    for (const build of pendingBuilds.value) {
+      if (build.requestHash && !trackers.has(build.id)) {
+        startTracking(build.id)
+      }
+    }
+  }
+
+  function refreshBuild(id: string): void {
+    const build = getBuild(id)
+    if (!build?.requestHash) return
+    updateBuild(id, { pollError: undefined })
+    startTracking(id)
+  }
+
+  function removeBuild(id: string): void {
+    stopPolling(id)
+    builds.value = builds.value.filter(build => build.id !== id)
+    if (activeBuildId.value === id) {
+      activeBuildId.value = null
+    }
+    persist()
+  }
+
+  function clearHistory(): void {
+    // Running builds stay so their results are not lost
+    for (const build of builds.value) {
+      if (!isPending(build)) stopPolling(build.id)
+    }
+    builds.value = builds.value.filter(build => isPending(build))
+    if (activeBuildId.value && !getBuild(activeBuildId.value)) {
+      activeBuildId.value = null
+    }
+    persist()
+  }
+
+  function setActiveBuild(id: string | null): void {
+    activeBuildId.value = id
+  }
+
+  function getBuild(id: string): BuildRecord | undefined {
+    return builds.value.find(build => build.id === id)
+  }
+
+  function getImageUrl(build: BuildRecord, image: BuildImage): string {
+    return `${config.asu_url}/store/${build.binDir || build.requestHash}/${image.name}`
+  }
+
+  function startTracking(id: string): void {
+    const build = getBuild(id)
+    if (!build?.requestHash) return
+
+    stopPolling(id)
+    const controller = new AbortController()
+    trackers.set(id, controller)
+
+    asuBuildTracker.track(build.requestHash, {
+      signal: controller.signal,
+      onUpdate: update => applyUpdate(id, update)
+    }).catch(error => {
+      if (controller.signal.aborted) return
+      if (error instanceof AsuTrackerError && error.response) {
+        // Final error response (4xx/500) was already applied
+        return
+      }
+      console.error('Failed to poll build status:', error)
+      // Keep the build pending so it can be resumed later
+      updateBuild(id, { pollError: `构建状态检查失败: ${error instanceof Error ? error.message : error}` })
+    }).finally(() => {
+      if (trackers.get(id) === controller) {
+        trackers.delete(id)
+      }
+    })
+  }
+
+  function stopPolling(id: string): void {
+    trackers.get(id)?.abort()
+    trackers.delete(id)
+  }
+
+  function applyUpdate(id: string, update: TrackerUpdate): void {
+    updateBuild(id, { progress: update.progress, etaSeconds: update.etaSeconds })
+    applyResponse(id, { ...update.response, httpStatus: update.httpStatus }, update.state)
+  }
+
+  function applyResponse(id: string, response: AsuStatusResponse & { httpStatus?: number }, state?: BuildState): void {
+    const build = getBuild(id)
+    if (!build) return
+
+    const previousStatus = build.status
+    const status = state || getState(response)
+    updateBuild(id, {
+      status,
+      requestHash: response.request_hash || build.requestHash,
+      httpStatus: response.httpStatus,
+      detail: response.detail,
+      queuePosition: response.queue_position,
+      imagebuilderStatus: response.imagebuilder_status,
+      stdout: response.stdout || build.stdout,
+      stderr: response.stderr || build.stderr,
+      images: response.images || build.images,
+      binDir: response.bin_dir || build.binDir,
+      buildCmd: response.build_cmd || build.buildCmd,
+      pollError: undefined
+    })
+    recordStep(build, response, status)
+
+    if (status !== previousStatus) {
+      const now = new Date().toISOString()
+      build.transitions.push({ status, at: now, detail: response.detail })
+      if (!isPending(build)) {
+        build.finishedAt = now
+      }
+      persist()
+    }
+  }
+
+  /**
+   * Append to the build timeline when ASU reports a new imagebuilder status or detail
+   */
+  function recordStep(build: BuildRecord, response: AsuStatusResponse, state: BuildState): void {
+    const steps = build.steps || (build.steps = [])
+    const last = steps[steps.length - 1]
+    let status = response.imagebuilder_status
+      ? buildLog.normalizeStatus(response.imagebuilder_status)
+      : last?.status || (response.queue_position ? 'queued' : '')
+    if (state === 'success' || state === 'no_sysupgrade') status = 'done'
+    if (state === 'failure') status = 'failed'
+    if (!status) return
+    if (last && last.status === status && last.detail === response.detail) return
+
+    steps.push({ status, detail: response.detail, at: new Date().toISOString() })
+    schedulePersist()
+  }
+
+  function getState(response: AsuStatusResponse & { httpStatus?: number }): BuildState {
+    // HTTP status decides the outcome, like the original polling
+    if (response.httpStatus === 200) {
+      return response.status === 'no_sysupgrade' ? 'no_sysupgrade' : 'success'
+    }
+    if (response.httpStatus && response.httpStatus >= 400) return 'failure'
+    if (response.httpStatus === 202) {
+      return response.queue_position ? 'requested' : 'building'
+    }
+    return response.status || 'requested'
+  }
+
+  function updateBuild(id: string, updates: Partial<BuildRecord>): void {
+    const build = getBuild(id)
+    if (!build) return
+    Object.assign(build, updates, { updatedAt: new Date().toISOString() })
+    schedulePersist()
+  }
+
+  /**
+   * Save the history now; status changes and list edits are written right away
+   */
+  function persist(): void {
+    if (persistTimer) {
+      clearTimeout(persistTimer)
+      persistTimer = null
+    }
+    buildHistory.save(builds.value)
+  }
+
+  function schedulePersist(): void {
+    if (persistTimer) return
+    persistTimer = setTimeout(persist, PERSIST_INTERVAL)
+  }
+
+  return {
+    // State
+    builds,
+    activeBuildId,
+
+    // Computed
+    activeBuild,
+    pendingBuilds,
+
+    // Actions
+    isPending,
+    submitBuild,
+    resubmitBuild,
+    resumePendingBuilds,
+    refreshBuild,
+    removeBuild,
+    clearHistory,
+    setActiveBuild,
+    getBuild,
+    getImageUrl
+  }
+})
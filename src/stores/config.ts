@@ -138,12 +138,16 @@ export const useConfigStore = defineStore('config', () => {
                 id: source.id,
                 name: source.name,
                 url: source.url,
+                provider: source.provider,
                 ref: source.ref
               })),
               selections: moduleStore.selections.map(selection => ({
                 sourceId: selection.sourceId,
                 moduleId: selection.moduleId,
-                parameters: { ...selection.parameters },
+                // Passwords stay in saved configurations but never go into share links
+                parameters: options?.forShare
+                  ? moduleStore.getShareableParameters(selection)
+                  : { ...selection.parameters },
                 userDownloads: { ...selection.userDownloads }
               }))
             }
@@ -197,7 +201,7 @@ export const useConfigStore = defineStore('config', () => {
     options?: { markAsShared?: boolean }
   ): Promise<boolean> {
     // Apply device configuration
-    await firmwareStore.changeVersion(savedConfig.device.version)
+    await firmwareStore.changeVersion(savedConfig.device.version, { keepDevice: false })
 
     const devicesLoaded = await waitForCondition(
       () => Object.keys(firmwareStore.devices).length > 0
@@ -227,23 +231,9 @@ export const useConfigStore = defineStore('config', () => {
     }
 
     if (config.enable_module_management && savedConfig.modules) {
-      moduleStore.sources = []
+      await moduleStore.restoreSources(savedConfig.modules.sources)
       moduleStore.selections = []
 
-      for (const sourceConfig of savedConfig.modules.sources) {
-        try {
-          await moduleStore.addModuleSource(
-            sourceConfig.url,
-            sourceConfig.name,
-            sourceConfig.ref
-          )
-        } catch (err) {
-          console.warn(`Failed to load module source: ${sourceConfig.name}`, err)
-        }
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 500))
-
       for (const selectionConfig of savedConfig.modules.selections) {
         try {
           moduleStore.selectModule(selectionConfig.sourceId, selectionConfig.moduleId)
@@ -420,8 +410,7 @@ export const useConfigStore = defineStore('config', () => {
     
     // Clear module selections (only if module management is enabled)
     if (config.enable_module_management) {
-      moduleStore.sources = []
-      moduleStore.selections = []
+      moduleStore.clearSources()
     }
     
     // Clear last used configuration when creating new one
@@ -2,6 +2,8 @@ import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { ApiService, type DeviceProfile, type OverviewResponse, type DeviceImage } from '@/services/api'
 import { config } from '@/config'
+import { useMirrorStore } from '@/stores/mirror'
+import { deviceSearch } from '@/services/deviceSearch'
 
 export interface ProcessedDevice {
   id: string
@@ -12,6 +14,7 @@ export interface ProcessedDevice {
 
 export const useFirmwareStore = defineStore('firmware', () => {
   const apiService = new ApiService(config.image_url)
+  const mirrorStore = useMirrorStore()
 
   // State
   const versions = ref<string[]>(config.versions)
@@ -22,25 +25,29 @@ export const useFirmwareStore = defineStore('firmware', () => {
   const devices = ref<Record<string, ProcessedDevice>>({})
   const selectedDevice = ref<ProcessedDevice | null>(null)
   const selectedProfile = ref<DeviceProfile | null>(null)
+  const preferredImageType = ref('') // Image type picked by the user or a link, listed first
 
   const isLoadingVersions = ref(false)
   const isLoadingDevices = ref(false)
   const isLoadingProfile = ref(false)
+  const isSwitchingVersion = ref(false)
 
   const alertMessage = ref('')
 
   // Computed
   const deviceTitles = computed(() => Object.keys(devices.value))
 
+  const deviceIndex = computed(() => deviceSearch.buildIndex(Object.values(devices.value)))
+
   const imageUrls = computed(() => {
     const urls: Record<string, string> = {}
-    const baseUrl = imageUrlOverride.value || '../misc'
+    const baseUrl = imageUrlOverride.value || config.image_url
 
     versions.value.forEach(version => {
       if (version === 'SNAPSHOT') {
-        urls[version] = `${baseUrl}/snapshots/`
+        urls[version] = mirrorStore.rewrite(`${baseUrl}/snapshots/`)
       } else {
-        urls[version] = `${baseUrl}/releases/${version}`
+        urls[version] = mirrorStore.rewrite(`${baseUrl}/releases/${version}`)
       }
     })
 
@@ -151,24 +158,9 @@ export const useFirmwareStore = defineStore('firmware', () => {
 
     isLoadingProfile.value = true
     try {
-      const profiles = await apiService.getProfiles(
-        currentVersion.value,
-        device.target,
-        imageUrlOverride.value
-      )
-
-      const profile = profiles.profiles[device.id]
+      const profile = await loadDeviceProfile(device)
       if (profile) {
-        selectedProfile.value = {
-          ...profile,
-          version_number: profiles.version_number,
-          version_code: profiles.version_code,
-          build_at: profiles.build_at,
-          default_packages: profiles.default_packages,
-          arch_packages: profiles.arch_packages,
-          linux_kernel: profiles.linux_kernel,
-          target: device.target
-        }
+        selectedProfile.value = profile
         selectedDevice.value = device
       }
 
@@ -180,6 +172,31 @@ export const useFirmwareStore = defineStore('firmware', () => {
     }
   }
 
+  /**
+   * Load the full profile of a device without selecting it, by default in the current version
+   */
+  async function loadDeviceProfile(device: ProcessedDevice, version = currentVersion.value): Promise<DeviceProfile | null> {
+    const profiles = await apiService.getProfiles(
+      version,
+      device.target,
+      imageUrlOverride.value
+    )
+
+    const profile = profiles.profiles[device.id]
+    if (!profile) return null
+
+    return {
+      ...profile,
+      version_number: profiles.version_number,
+      version_code: profiles.version_code,
+      build_at: profiles.build_at,
+      default_packages: profiles.default_packages,
+      arch_packages: profiles.arch_packages,
+      linux_kernel: profiles.linux_kernel,
+      target: device.target
+    }
+  }
+
   function clearAlert() {
     alertMessage.value = ''
   }
@@ -220,11 +237,12 @@ export const useFirmwareStore = defineStore('firmware', () => {
   function getImageFolder(): string {
     if (!selectedDevice.value || !currentVersion.value) return ''
 
-    return apiService.buildImageFolder(
+    // Links and downloads go to the preferred mirror
+    return mirrorStore.rewrite(apiService.buildImageFolder(
       currentVersion.value,
       selectedDevice.value.target,
       imageUrlOverride.value
-    )
+    ))
   }
 
   function getDownloadUrl(image: DeviceImage): string {
@@ -240,11 +258,65 @@ export const useFirmwareStore = defineStore('firmware', () => {
     return date
   }
 
-  async function changeVersion(version: string) {
+  /**
+   * Switch releases. The selected device is looked up again in the new release and stays
+   * selected until its new profile is loaded, so the configuration around it survives.
+   */
+  async function changeVersion(version: string, options: { keepDevice?: boolean } = {}): Promise<ProcessedDevice | null> {
+    const previous = options.keepDevice === false ? null : selectedDevice.value
     currentVersion.value = version
-    selectedDevice.value = null
-    selectedProfile.value = null
-    await loadDevices(version)
+
+    if (!previous) {
+      selectedDevice.value = null
+      selectedProfile.value = null
+      await loadDevices(version)
+      return null
+    }
+
+    isSwitchingVersion.value = true
+    isLoadingProfile.value = true
+    try {
+      await loadDevices(version)
+
+      const device = findDevice(previous)
+      const profile = device ? await loadDeviceProfile(device, version) : null
+      selectedProfile.value = profile
+      selectedDevice.value = profile ? device : null
+      if (!profile) {
+        alertMessage.value = `版本 ${version} 中没有找到设备 ${previous.title}`
+      }
+      return selectedDevice.value
+    } catch (error) {
+      console.error('Failed to load device profile:', error)
+      alertMessage.value = `Failed to load device profile: ${error}`
+      selectedDevice.value = null
+      selectedProfile.value = null
+      return null
+    } finally {
+      isLoadingProfile.value = false
+      isSwitchingVersion.value = false
+    }
+  }
+
+  /**
+   * Find a device of another release: same profile id and target, then same profile id, then same title
+   */
+  function findDevice(device: ProcessedDevice): ProcessedDevice | null {
+    // Profiles with several titles: keep the title the user picked
+    const sameTitle = devices.value[device.title]
+    if (sameTitle?.id === device.id) return sameTitle
+
+    return findDeviceById(device.target, device.id)
+      || Object.values(devices.value).find(item => item.id === device.id)
+      || devices.value[device.title]
+      || null
+  }
+
+  /**
+   * Device of a profile; profiles with several titles resolve to the first one
+   */
+  function findDeviceById(target: string, id: string): ProcessedDevice | null {
+    return Object.values(devices.value).find(item => item.id === id && item.target === target) || null
   }
 
   return {
@@ -255,19 +327,25 @@ export const useFirmwareStore = defineStore('firmware', () => {
     devices,
     selectedDevice,
     selectedProfile,
+    preferredImageType,
     isLoadingVersions,
     isLoadingDevices,
     isLoadingProfile,
+    isSwitchingVersion,
     alertMessage,
 
     // Computed
     deviceTitles,
+    deviceIndex,
     imageUrls,
 
     // Actions
     loadVersions,
     loadDevices,
     selectDevice,
+    loadDeviceProfile,
+    findDevice,
+    findDeviceById,
     clearAlert,
     getImageFolder,
     getDownloadUrl,
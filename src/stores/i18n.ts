@@ -8,6 +8,7 @@ export interface Translation {
 export const useI18nStore = defineStore('i18n', () => {
   const currentLanguage = ref('zh-cn')
   const currentTranslation = ref<Translation>({})
+  const fallbackTranslations = ref<Translation[]>([]) // Base language, then English
   const isLoading = ref(false)
   
   const supportedLanguages = [
@@ -64,6 +65,31 @@ export const useI18nStore = defineStore('i18n', () => {
     return lang ? lang.name.replace(/ \(.*/, '') : 'English'
   })
 
+  async function fetchTranslation(lang: string): Promise<Translation> {
+    const response = await fetch(`/langs/${lang}.json`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch translation for ${lang}`)
+    }
+    return response.json()
+  }
+
+  // Translations for keys the current language lacks: "pt" for "pt-br", then English
+  async function loadFallbacks(lang: string): Promise<Translation[]> {
+    const base = lang.replace(/_/g, '-').split('-')[0]
+    const chain = [...new Set([base, 'en'])]
+      .filter(code => code !== lang && supportedLanguages.some(l => l.code === code))
+
+    const translations: Translation[] = []
+    for (const code of chain) {
+      try {
+        translations.push(await fetchTranslation(code))
+      } catch (error) {
+        console.warn(`Failed to load fallback translation ${code}:`, error)
+      }
+    }
+    return translations
+  }
+
   async function loadTranslation(lang: string, force: boolean = false) {
     if (!force && lang === currentLanguage.value && Object.keys(currentTranslation.value).length > 0) {
       return
@@ -71,14 +97,10 @@ export const useI18nStore = defineStore('i18n', () => {
     
     isLoading.value = true
     try {
-      const response = await fetch(`/langs/${lang}.json`)
-      if (response.ok) {
-        const translation = await response.json()
-        currentTranslation.value = translation
-        currentLanguage.value = lang
-      } else {
-        throw new Error(`Failed to fetch translation for ${lang}`)
-      }
+      const translation = await fetchTranslation(lang)
+      fallbackTranslations.value = await loadFallbacks(lang)
+      currentTranslation.value = translation
+      currentLanguage.value = lang
     } catch (error) {
       console.error('Failed to load translation:', error)
       if (lang !== 'en') {
@@ -95,7 +117,10 @@ export const useI18nStore = defineStore('i18n', () => {
   }
 
   function t(key: string, fallback?: string): string {
-    return currentTranslation.value[key] || fallback || key
+    for (const translation of [currentTranslation.value, ...fallbackTranslations.value]) {
+      if (translation[key]) return translation[key]
+    }
+    return fallback || key
   }
 
   // Auto-detect language
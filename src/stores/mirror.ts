@@ -0,0 +1,70 @@
+// Download mirror selection store
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { mirrorService, type MirrorStatus } from '@/services/mirror'
+
+export const useMirrorStore = defineStore('mirror', () => {
+  // State
+  const mirrors = ref<MirrorStatus[]>(mirrorService.getStatus())
+  const selectedUrl = ref<string | null>(mirrorService.getSelectedUrl())
+  const preferredUrl = ref(mirrorService.getPreferred().url)
+  const isProbing = ref(false)
+
+  // The service changes order on its own when a mirror fails
+  mirrorService.subscribe(refresh)
+
+  // Computed
+  const hasMirrors = computed(() => mirrors.value.length > 1)
+
+  const preferredMirror = computed(() => {
+    return mirrors.value.find(mirror => mirror.url === preferredUrl.value) || null
+  })
+
+  // Actions
+  async function probeMirrors() {
+    if (isProbing.value) return
+    isProbing.value = true
+    try {
+      await mirrorService.probeAll()
+    } finally {
+      isProbing.value = false
+    }
+  }
+
+  function selectMirror(url: string | null) {
+    mirrorService.select(url)
+  }
+
+  /**
+   * Rewrite a download URL to the preferred mirror; reactive on mirror changes
+   */
+  function rewrite(url: string): string {
+    // Read the reactive state so computed download links follow the selection
+    void preferredUrl.value
+    return mirrorService.rewrite(url)
+  }
+
+  function refresh() {
+    mirrors.value = mirrorService.getStatus()
+    selectedUrl.value = mirrorService.getSelectedUrl()
+    preferredUrl.value = mirrorService.getPreferred().url
+  }
+
+  return {
+    // State
+    mirrors,
+    selectedUrl,
+    preferredUrl,
+    isProbing,
+
+    // Computed
+    hasMirrors,
+    preferredMirror,
+
+    // Actions
+    probeMirrors,
+    selectMirror,
+    rewrite
+  }
+})
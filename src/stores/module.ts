@@ -3,18 +3,50 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { ModuleSource, ModuleSelection, Module } from '@/types/module'
-import { githubService } from '@/services/github'
+import type { SavedConfiguration } from '@/types/config'
+import { moduleSourceService, type ModuleSourceKind, type ModuleSourceLocation } from '@/services/moduleSources'
+import { moduleCache } from '@/services/moduleCache'
 import { moduleParserService } from '@/services/moduleParser'
-import { moduleValidationService } from '@/services/moduleValidation'
+import { moduleValidationService, BOOLEAN_FALSE, type ValidationLocale } from '@/services/moduleValidation'
+import { moduleCompatibilityService, type ModuleDeviceContext, type ModuleRef } from '@/services/moduleCompatibility'
+import { useFirmwareStore } from '@/stores/firmware'
+import { useI18nStore } from '@/stores/i18n'
+import { config } from '@/config'
 
 export const useModuleStore = defineStore('module', () => {
+  const firmwareStore = useFirmwareStore()
+  const i18n = useI18nStore()
+
   // State
   const sources = ref<ModuleSource[]>([])
   const selections = ref<ModuleSelection[]>([])
   const isLoading = ref(false)
+  const isCheckingUpdates = ref(false)
   const error = ref<string>('')
+  // Newer remote revision per source id, found by checkForUpdates
+  const updates = ref<Record<string, string>>({})
+
+  // Sources stored from previous visits, restored once
+  const ready = initialize()
 
   // Computed
+  // Device and version modules are checked against, null until a device is selected
+  const deviceContext = computed<ModuleDeviceContext | null>(() => {
+    const device = firmwareStore.selectedDevice
+    if (!device) return null
+    return {
+      target: device.target,
+      version: firmwareStore.currentVersion,
+      arch: firmwareStore.selectedProfile?.arch_packages || ''
+    }
+  })
+
+  // Validation messages and module texts follow the interface language
+  const validationLocale = computed<ValidationLocale>(() => ({
+    language: i18n.currentLanguage,
+    t: i18n.t
+  }))
+
   const totalModules = computed(() => {
     return sources.value.reduce((total, source) => total + source.modules.length, 0)
   })
@@ -36,39 +68,89 @@ export const useModuleStore = defineStore('module', () => {
   })
 
   // Actions
-  async function addModuleSource(url: string, name: string, ref: string = 'main'): Promise<void> {
+  /**
+   * Add a repository or archive URL. The provider is detected from the host unless given.
+   */
+  async function addModuleSource(url: string, name: string, ref: string = 'main', provider?: ModuleSourceKind): Promise<void> {
     isLoading.value = true
     error.value = ''
 
     try {
-      const repoInfo = githubService.parseRepoUrl(url)
-      if (!repoInfo) {
-        throw new Error('Invalid GitHub repository URL')
+      const location = moduleSourceService.resolve(url, provider)
+      if (!location || location.provider === 'upload') {
+        throw new Error(moduleValidationService.message('unknown-source', {}, validationLocale.value))
       }
 
+      const sourceRef = moduleSourceService.getProvider(location.provider).usesRef ? ref : ''
+
       // Check if source already exists
-      const sourceId = `${repoInfo.owner}/${repoInfo.repo}@${ref}`
+      const sourceId = moduleSourceService.getSourceId(location, sourceRef)
       if (sources.value.find(s => s.id === sourceId)) {
         throw new Error('Module source already exists')
       }
 
-      // Download repository archive directly
-      const zipBlob = await githubService.downloadRepository(repoInfo.owner, repoInfo.repo, ref)
-
-      // Parse modules from archive
-      const modules = await moduleParserService.parseModuleSource(zipBlob)
+      const loaded = await loadModules(location, sourceRef)
 
       // Add module source (no validation)
       const moduleSource: ModuleSource = {
         id: sourceId,
         name,
-        url,
-        ref,
+        url: location.url,
+        provider: location.provider,
+        ref: sourceRef,
+        modules: loaded.modules,
+        revision: loaded.revision,
+        lastUpdated: new Date(),
+        lastChecked: loaded.fromCache ? undefined : new Date(),
+        fromCache: loaded.fromCache
+      }
+
+      sources.value.push(moduleSource)
+      await persistSources()
+
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error occurred'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Add a zip file dropped or picked from disk. It cannot be refreshed, only uploaded again.
+   * The parsed modules are cached, so the source survives a reload of the page.
+   */
+  async function addUploadedModuleSource(file: File, name: string): Promise<void> {
+    isLoading.value = true
+    error.value = ''
+
+    try {
+      const location = moduleSourceService.resolve(`upload:${file.name}`, 'upload')!
+      const sourceId = moduleSourceService.getSourceId(location, '')
+      const modules = await moduleParserService.parseModuleSource(file)
+      const revision = await moduleCache.hashArchive(file)
+      await moduleCache.putArchive({ url: location.url, ref: '', revision, modules, size: file.size })
+
+      const moduleSource: ModuleSource = {
+        id: sourceId,
+        name,
+        url: location.url,
+        provider: 'upload',
+        ref: '',
         modules,
+        revision,
         lastUpdated: new Date()
       }
 
-      sources.value.push(moduleSource)
+      // Uploading the same file again replaces it
+      const index = sources.value.findIndex(s => s.id === sourceId)
+      if (index !== -1) {
+        sources.value.splice(index, 1, moduleSource)
+        pruneSelections(sourceId, modules)
+      } else {
+        sources.value.push(moduleSource)
+      }
+      await persistSources()
 
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Unknown error occurred'
@@ -84,9 +166,21 @@ export const useModuleStore = defineStore('module', () => {
       sources.value.splice(index, 1)
       // Remove related selections
       selections.value = selections.value.filter(s => s.sourceId !== sourceId)
+      delete updates.value[sourceId]
+      void persistSources()
     }
   }
 
+  function clearSources(): void {
+    sources.value = []
+    selections.value = []
+    updates.value = {}
+    void persistSources()
+  }
+
+  /**
+   * Load the current revision of a source. Nothing is downloaded when the revision is cached.
+   */
   async function refreshModuleSource(sourceId: string): Promise<void> {
     const source = sources.value.find(s => s.id === sourceId)
     if (!source) {
@@ -97,26 +191,24 @@ export const useModuleStore = defineStore('module', () => {
     error.value = ''
 
     try {
-      const repoInfo = githubService.parseRepoUrl(source.url)
-      if (!repoInfo) {
-        throw new Error('Invalid GitHub repository URL')
+      const location = moduleSourceService.resolve(source.url, source.provider)
+      if (!location) {
+        throw new Error(moduleValidationService.message('unknown-source-url', {}, validationLocale.value))
       }
 
-      // Download repository archive directly
-      const zipBlob = await githubService.downloadRepository(repoInfo.owner, repoInfo.repo, source.ref)
-
-      // Parse modules from archive
-      const modules = await moduleParserService.parseModuleSource(zipBlob)
+      const loaded = await loadModules(location, source.ref, { offline: false })
 
       // Update source (no validation)
-      source.modules = modules
-      source.lastUpdated = new Date()
-
-      // Remove selections for modules that no longer exist
-      const existingModuleIds = new Set(modules.map(m => m.id))
-      selections.value = selections.value.filter(s => 
-        s.sourceId !== sourceId || existingModuleIds.has(s.moduleId)
-      )
+      if (loaded.revision !== source.revision) {
+        source.modules = loaded.modules
+        source.revision = loaded.revision
+        source.lastUpdated = new Date()
+        pruneSelections(sourceId, loaded.modules)
+      }
+      source.lastChecked = new Date()
+      source.fromCache = false
+      delete updates.value[sourceId]
+      await persistSources()
 
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Unknown error occurred'
@@ -126,23 +218,209 @@ export const useModuleStore = defineStore('module', () => {
     }
   }
 
-  function selectModule(sourceId: string, moduleId: string): void {
+  /**
+   * Compare the revision each source was loaded from with its ref on the remote.
+   * Found updates are listed in `updates`, applying them is up to the user.
+   */
+  async function checkForUpdates(sourceId?: string): Promise<void> {
+    const targets = sources.value.filter(source => {
+      return (!sourceId || source.id === sourceId) && source.provider !== 'upload'
+    })
+
+    isCheckingUpdates.value = true
+    error.value = ''
+
+    try {
+      for (const source of targets) {
+        const location = moduleSourceService.resolve(source.url, source.provider)
+        if (!location) continue
+
+        try {
+          const revision = await moduleSourceService.resolveRevision(location, source.ref)
+          source.lastChecked = new Date()
+          if (revision && revision !== source.revision) {
+            updates.value[source.id] = revision
+          } else {
+            delete updates.value[source.id]
+          }
+        } catch (err) {
+          error.value = moduleValidationService.message('update-check-failed', {
+            name: source.name,
+            error: err instanceof Error ? err.message : String(err)
+          }, validationLocale.value)
+        }
+      }
+      await persistSources()
+    } finally {
+      isCheckingUpdates.value = false
+    }
+  }
+
+  /**
+   * Add the sources of a saved configuration to the stored ones.
+   * Sources already loaded are kept, the others come from the cache or are downloaded.
+   */
+  async function restoreSources(configs: NonNullable<SavedConfiguration['modules']>['sources']): Promise<void> {
+    await ready
+
+    for (const sourceConfig of configs) {
+      if (sources.value.some(source => source.id === sourceConfig.id)) continue
+
+      if (sourceConfig.provider === 'upload') {
+        console.warn(`Uploaded module source cannot be restored, upload it again: ${sourceConfig.name}`)
+        continue
+      }
+      try {
+        await addModuleSource(sourceConfig.url, sourceConfig.name, sourceConfig.ref, sourceConfig.provider)
+      } catch (err) {
+        console.warn(`Failed to load module source: ${sourceConfig.name}`, err)
+      }
+    }
+
+    // Sources of the configuration first, in the saved order; other stored sources keep theirs
+    const order = configs.map(item => item.id)
+    const rank = (id: string) => order.includes(id) ? order.indexOf(id) : order.length
+    sources.value.sort((a, b) => rank(a.id) - rank(b.id))
+    await persistSources()
+  }
+
+  /**
+   * Modules of a source ref: cached archive of its current revision, or a fresh download.
+   * Without network the newest cached archive of the ref is used, unless `offline` is false.
+   */
+  async function loadModules(
+    location: ModuleSourceLocation,
+    sourceRef: string,
+    options: { offline?: boolean } = {}
+  ): Promise<{ modules: Module[]; revision: string; fromCache: boolean }> {
+    let revision: string | null = null
+    try {
+      revision = await moduleSourceService.resolveRevision(location, sourceRef)
+    } catch (err) {
+      const cached = options.offline === false ? null : await moduleCache.findLatestArchive(location.url, sourceRef)
+      if (cached) {
+        return { modules: cached.modules, revision: cached.revision, fromCache: true }
+      }
+      // The API may be rate limited while archives still download
+      console.warn(`Failed to resolve revision of ${location.url}:`, err)
+    }
+
+    if (revision) {
+      const cached = await moduleCache.getArchive(location.url, revision)
+      if (cached) {
+        return { modules: cached.modules, revision, fromCache: false }
+      }
+    }
+
+    // Download and parse the archive
+    const zipBlob = await moduleSourceService.download(location, sourceRef)
+    const modules = await moduleParserService.parseModuleSource(zipBlob)
+
+    // Archives without a remote revision are identified by content
+    revision = revision || await moduleCache.hashArchive(zipBlob)
+    await moduleCache.putArchive({ url: location.url, ref: sourceRef, revision, modules, size: zipBlob.size })
+
+    return { modules, revision, fromCache: false }
+  }
+
+  async function initialize(): Promise<void> {
+    if (!config.enable_module_management) return
+
+    const records = await moduleCache.loadSources()
+    const restored: ModuleSource[] = []
+    for (const record of records) {
+      if (!record.revision) continue
+      const entry = await moduleCache.getArchive(record.url, record.revision)
+      if (!entry) continue
+      restored.push({
+        id: record.id,
+        name: record.name,
+        url: record.url,
+        provider: record.provider,
+        ref: record.ref,
+        revision: record.revision,
+        lastUpdated: record.lastUpdated,
+        lastChecked: record.lastChecked,
+        modules: entry.modules
+      })
+    }
+
+    // Sources added meanwhile win
+    const added = sources.value
+    sources.value = [...restored.filter(source => !added.some(item => item.id === source.id)), ...added]
+  }
+
+  async function persistSources(): Promise<void> {
+    await moduleCache.saveSources(sources.value)
+  }
+
+  // Remove selections for modules that no longer exist
+  function pruneSelections(sourceId: string, modules: Module[]): void {
+    const existingModuleIds = new Set(modules.map(m => m.id))
+    selections.value = selections.value.filter(s => 
+      s.sourceId !== sourceId || existingModuleIds.has(s.moduleId)
+    )
+  }
+
+  /**
+   * Select a module along with the modules it requires.
+   * Throws when a module does not fit the device or conflicts with a selected one.
+   * Returns the required modules that were selected automatically.
+   */
+  function selectModule(sourceId: string, moduleId: string): ModuleRef[] {
     // Check if already selected
-    if (selections.value.find(s => s.sourceId === sourceId && s.moduleId === moduleId)) {
-      return
+    if (isModuleSelected(sourceId, moduleId)) {
+      return []
     }
 
-    const source = sources.value.find(s => s.id === sourceId)
-    const module = source?.modules.find(m => m.id === moduleId)
-    
-    if (!source || !module) {
+    const module = findModule(sourceId, moduleId)
+    if (!module) {
       throw new Error('Module or source not found')
     }
 
-    // Initialize selection with default parameters
+    const requirements = moduleCompatibilityService.resolveRequires(sources.value, { sourceId, moduleId })
+    if (requirements.missing.length > 0) {
+      throw new Error(moduleValidationService.message('requires-missing', {
+        name: module.definition.name,
+        modules: requirements.missing.join(', ')
+      }, validationLocale.value))
+    }
+
+    const added = requirements.modules.filter(ref => !isModuleSelected(ref.sourceId, ref.moduleId))
+    const pending = [...added, { sourceId, moduleId }]
+
+    for (const ref of pending) {
+      const issues = getCompatibilityIssues(ref.sourceId, ref.moduleId)
+      if (issues.length > 0) {
+        throw new Error(moduleValidationService.message('incompatible', {
+          name: findModule(ref.sourceId, ref.moduleId)!.definition.name,
+          issues: issues.join('; ')
+        }, validationLocale.value))
+      }
+    }
+
+    const others = [...selections.value, ...pending]
+    for (const ref of pending) {
+      for (const other of others) {
+        if (other.sourceId === ref.sourceId && other.moduleId === ref.moduleId) continue
+        const reasons = moduleCompatibilityService.findConflicts(sources.value, ref, other, validationLocale.value)
+        if (reasons.length > 0) {
+          throw new Error(reasons.join('; '))
+        }
+      }
+    }
+
+    for (const ref of pending) {
+      selections.value.push(createSelection(ref.sourceId, findModule(ref.sourceId, ref.moduleId)!))
+    }
+    return added
+  }
+
+  // Initialize selection with default parameters
+  function createSelection(sourceId: string, module: Module): ModuleSelection {
     const selection: ModuleSelection = {
       sourceId,
-      moduleId,
+      moduleId: module.id,
       parameters: {},
       userDownloads: {}
     }
@@ -153,19 +431,75 @@ export const useModuleStore = defineStore('module', () => {
         for (const param of paramFile.parameters) {
           if (param.default !== undefined) {
             selection.parameters[`${paramFile.file}:${param.name}`] = param.default
+          } else if (param.type === 'boolean') {
+            // A switch always has a value, it starts off
+            selection.parameters[`${paramFile.file}:${param.name}`] = BOOLEAN_FALSE
           }
         }
       }
     }
 
-    selections.value.push(selection)
+    return selection
   }
 
-  function deselectModule(sourceId: string, moduleId: string): void {
-    const index = selections.value.findIndex(s => s.sourceId === sourceId && s.moduleId === moduleId)
-    if (index !== -1) {
-      selections.value.splice(index, 1)
+  /**
+   * Deselect a module and the selected modules that require it.
+   * Returns the dependent modules that were deselected too.
+   */
+  function deselectModule(sourceId: string, moduleId: string): ModuleRef[] {
+    if (!isModuleSelected(sourceId, moduleId)) return []
+
+    const removed = new Set([moduleCompatibilityService.getKey({ sourceId, moduleId })])
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const selection of selections.value) {
+        const key = moduleCompatibilityService.getKey(selection)
+        if (removed.has(key)) continue
+        const required = moduleCompatibilityService.resolveRequires(sources.value, selection).modules
+        if (required.some(ref => removed.has(moduleCompatibilityService.getKey(ref)))) {
+          removed.add(key)
+          changed = true
+        }
+      }
+    }
+
+    const dependents = selections.value
+      .filter(s => removed.has(moduleCompatibilityService.getKey(s)) && !(s.sourceId === sourceId && s.moduleId === moduleId))
+      .map(s => ({ sourceId: s.sourceId, moduleId: s.moduleId }))
+    selections.value = selections.value.filter(s => !removed.has(moduleCompatibilityService.getKey(s)))
+    return dependents
+  }
+
+  function findModule(sourceId: string, moduleId: string): Module | undefined {
+    return sources.value.find(s => s.id === sourceId)?.modules.find(m => m.id === moduleId)
+  }
+
+  /**
+   * Why a module does not fit the selected device and version, empty without a device
+   */
+  function getCompatibilityIssues(sourceId: string, moduleId: string): string[] {
+    const module = findModule(sourceId, moduleId)
+    if (!module || !deviceContext.value) return []
+    return moduleCompatibilityService.checkDevice(module.definition, deviceContext.value, validationLocale.value)
+  }
+
+  /**
+   * Parameter values without secrets (passwords), for share links
+   */
+  function getShareableParameters(selection: ModuleSelection): Record<string, string> {
+    const module = findModule(selection.sourceId, selection.moduleId)
+    const secrets = new Set<string>()
+    for (const paramFile of module?.definition.parameterized_files || []) {
+      for (const param of paramFile.parameters) {
+        if (moduleValidationService.isSecret(param)) secrets.add(`${paramFile.file}:${param.name}`)
+      }
     }
+    return Object.fromEntries(Object.entries(selection.parameters).filter(([key]) => !secrets.has(key)))
+  }
+
+  function isModuleCompatible(sourceId: string, moduleId: string): boolean {
+    return getCompatibilityIssues(sourceId, moduleId).length === 0
   }
 
   function updateModuleParameter(sourceId: string, moduleId: string, parameterKey: string, value: string): void {
@@ -200,11 +534,31 @@ export const useModuleStore = defineStore('module', () => {
     const module = source?.modules.find(m => m.id === moduleId)
     
     if (!selection || !module) {
-      return { isValid: false, errors: ['模块选择不存在'] }
+      return { isValid: false, errors: [moduleValidationService.message('selection-missing', {}, validationLocale.value)] }
     }
 
     const errors: string[] = []
 
+    // The device, version or other selections may have changed since the module was selected
+    errors.push(...getCompatibilityIssues(sourceId, moduleId))
+
+    const requirements = moduleCompatibilityService.resolveRequires(sources.value, { sourceId, moduleId })
+    for (const name of requirements.missing) {
+      errors.push(moduleValidationService.message('required-missing', { name }, validationLocale.value))
+    }
+    for (const ref of requirements.modules) {
+      if (!isModuleSelected(ref.sourceId, ref.moduleId)) {
+        errors.push(moduleValidationService.message('required-not-selected', {
+          name: findModule(ref.sourceId, ref.moduleId)?.definition.name || ref.moduleId
+        }, validationLocale.value))
+      }
+    }
+
+    for (const other of selections.value) {
+      if (other.sourceId === sourceId && other.moduleId === moduleId) continue
+      errors.push(...moduleCompatibilityService.findConflicts(sources.value, { sourceId, moduleId }, other, validationLocale.value))
+    }
+
     // Validate parameterized files
     if (module.definition.parameterized_files) {
       for (const paramFile of module.definition.parameterized_files) {
@@ -212,7 +566,7 @@ export const useModuleStore = defineStore('module', () => {
           const paramKey = `${paramFile.file}:${param.name}`
           const value = selection.parameters[paramKey] || ''
           
-          const result = moduleValidationService.validateParameter(param, value)
+          const result = moduleValidationService.validateParameter(param, value, validationLocale.value)
           if (!result.isValid) {
             errors.push(`${paramFile.file} - ${result.errorMessage}`)
           }
@@ -225,7 +579,7 @@ export const useModuleStore = defineStore('module', () => {
       for (const download of module.definition.downloads) {
         if (!download.url) { // User-defined download
           const userUrl = selection.userDownloads[download.name] || ''
-          const result = moduleValidationService.validateDownloadUrl(userUrl)
+          const result = moduleValidationService.validateDownloadUrl(userUrl, validationLocale.value)
           if (!result.isValid) {
             errors.push(`${download.name} - ${result.errorMessage}`)
           }
@@ -256,8 +610,8 @@ export const useModuleStore = defineStore('module', () => {
     }
   }
 
+  // Sources are kept, they are stored across devices and visits
   function resetAll(): void {
-    sources.value = []
     selections.value = []
     error.value = ''
   }
@@ -267,16 +621,24 @@ export const useModuleStore = defineStore('module', () => {
     sources,
     selections,
     isLoading,
+    isCheckingUpdates,
     error,
+    updates,
+    ready,
 
     // Computed
+    deviceContext,
     totalModules,
     selectedModules,
 
     // Actions
     addModuleSource,
+    addUploadedModuleSource,
     removeModuleSource,
     refreshModuleSource,
+    checkForUpdates,
+    restoreSources,
+    clearSources,
     selectModule,
     deselectModule,
     updateModuleParameter,
@@ -284,6 +646,9 @@ export const useModuleStore = defineStore('module', () => {
     clearError,
     getModuleSelection,
     isModuleSelected,
+    getCompatibilityIssues,
+    isModuleCompatible,
+    getShareableParameters,
     validateModuleSelection,
     validateAllSelections,
     resetAll
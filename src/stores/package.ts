@@ -3,7 +3,14 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { packageManager } from '@/services/packageManager'
+import { dependencyResolver, type ResolutionRequest, type ResolutionResult } from '@/services/dependencyResolver'
+import { feedCache, type FeedCacheStats } from '@/services/feedCache'
+import { feedLoader } from '@/services/feedLoader'
+import { imageSizeEstimator, type SizeEstimate } from '@/services/sizeEstimator'
+import { packageMigration, type PackageConfiguration, type PackageMigrationReport } from '@/services/packageMigration'
 import { useFirmwareStore } from '@/stores/firmware'
+import { useModuleStore } from '@/stores/module'
+import { config } from '@/config'
 import type { OpenWrtPackage, PackageFeed, PackageSearchFilter } from '@/types/package'
 
 export const usePackageStore = defineStore('package', () => {
@@ -14,6 +21,9 @@ export const usePackageStore = defineStore('package', () => {
   const removedPackages = ref<Set<string>>(new Set())
   const isLoading = ref(false)
   const error = ref<string>('')
+  const migrationReport = ref<PackageMigrationReport | null>(null)
+  const cacheStats = ref<FeedCacheStats | null>(null) // null while unknown or without IndexedDB
+  let loadController: AbortController | null = null
 
   // Search and filters
   const searchQuery = ref('')
@@ -25,6 +35,9 @@ export const usePackageStore = defineStore('package', () => {
     return feeds.value.flatMap(feed => feed.packages)
   })
 
+  // Lookup by package name and by virtual names from Provides
+  const packageIndex = computed(() => packageManager.buildProviderIndex(allPackages.value))
+
   const filteredPackages = computed(() => {
     const filter: PackageSearchFilter = {
       query: searchQuery.value,
@@ -44,6 +57,11 @@ export const usePackageStore = defineStore('package', () => {
 
   const totalPackages = computed(() => allPackages.value.length)
 
+  // Feeds served from the offline cache because the mirror could not be reached
+  const staleFeeds = computed(() => feeds.value.filter(feed => feed.isStale).map(feed => feed.name))
+
+  const isRevalidating = computed(() => feeds.value.some(feed => feed.isRevalidating))
+
   const selectedPackagesList = computed(() => {
     return Array.from(selectedPackages.value)
   })
@@ -52,8 +70,8 @@ export const usePackageStore = defineStore('package', () => {
     return Array.from(removedPackages.value)
   })
 
-  // Build packages list with proper prefixes
-  const buildPackagesList = computed(() => {
+  // Packages as the user composed them, with '-' prefixes for removed defaults
+  const requestedPackagesList = computed(() => {
     const packages: string[] = []
     const defaultPackages = firmwareStore.selectedProfile?.default_packages || []
     
@@ -81,8 +99,80 @@ export const usePackageStore = defineStore('package', () => {
     return packages
   })
 
+  // Requests passed to the resolver, in the same order ASU applies them
+  const resolutionRequests = computed<ResolutionRequest[]>(() => {
+    const profile = firmwareStore.selectedProfile
+    if (!profile) return []
+
+    const defaultPackages = profile.default_packages || []
+    const requests: ResolutionRequest[] = [
+      ...(profile.device_packages || []).map(spec => ({ spec, reason: 'device' as const })),
+      ...defaultPackages.map(spec => ({ spec, reason: 'default' as const })),
+      ...(config.asu_extra_packages || []).map(spec => ({ spec, reason: 'extra' as const }))
+    ]
+
+    if (config.enable_module_management) {
+      const moduleStore = useModuleStore()
+      for (const { module } of moduleStore.selectedModules) {
+        for (const spec of module.definition.packages || []) {
+          requests.push({ spec, reason: 'module' })
+        }
+      }
+    }
+
+    requestedPackagesList.value
+      .filter(spec => !defaultPackages.includes(spec))
+      .forEach(spec => requests.push({ spec, reason: 'requested' }))
+
+    return requests
+  })
+
+  // Full dependency resolution, only available once package indexes are loaded
+  const resolution = computed<ResolutionResult | null>(() => {
+    if (allPackages.value.length === 0 || resolutionRequests.value.length === 0) return null
+    return dependencyResolver.resolve(resolutionRequests.value, allPackages.value)
+  })
+
+  // Packages sent to ASU, adjusted by the resolution once package indexes are loaded:
+  // replaced packages are removed, and removals a dependency still needs are dropped.
+  // Dependencies are not listed, the imagebuilder resolves them against the same feeds.
+  const buildPackagesList = computed(() => {
+    const result = resolution.value
+    if (!result) return requestedPackagesList.value
+
+    const reinstated = new Set(result.reinstated)
+    const replaced = new Set(result.rejected.filter(pkg => pkg.type === 'replaced').map(pkg => pkg.name))
+    const profile = firmwareStore.selectedProfile
+    const imagePackages = [...(profile?.device_packages || []), ...(profile?.default_packages || [])]
+
+    const packages = requestedPackagesList.value.filter(spec => {
+      return spec.startsWith('-') ? !reinstated.has(spec.substring(1)) : !replaced.has(spec)
+    })
+    for (const name of replaced) {
+      if (imagePackages.includes(name) && !packages.includes(`-${name}`)) {
+        packages.push(`-${name}`)
+      }
+    }
+    return packages
+  })
+
+  // Image size estimate for the full install set (device + defaults + added - removed + dependencies)
+  const sizeEstimate = computed<SizeEstimate>(() => {
+    return imageSizeEstimator.estimate(
+      resolution.value,
+      resolutionRequests.value.map(request => request.spec),
+      allPackages.value
+    )
+  })
+
   // Actions
   async function loadPackagesForDevice(version: string, architecture: string, target?: string): Promise<void> {
+    // Switching device cancels downloads and parsing for the previous one
+    loadController?.abort()
+    const controller = new AbortController()
+    loadController = controller
+    const signal = controller.signal
+
     isLoading.value = true
     error.value = ''
 
@@ -95,12 +185,7 @@ export const usePackageStore = defineStore('package', () => {
       const feedUrls = packageManager.generateFeedUrls(version, architecture, target, kernelInfo || undefined)
       
       // Define feed names based on what URLs we got
-      const baseFeedNames = ['base', 'luci', 'packages', 'telephony']
-      const feedNames = [
-        ...baseFeedNames,
-        ...(target ? ['target-packages'] : []),
-        ...(target && kernelInfo ? ['kmods'] : [])
-      ]
+      const feedNames = packageManager.getFeedNames(target, !!kernelInfo)
 
       // Reset feeds
       feeds.value = feedNames.map((name, index) => ({
@@ -111,28 +196,103 @@ export const usePackageStore = defineStore('package', () => {
         error: undefined
       })).filter(feed => feed.url) // Only include feeds with valid URLs
 
-      // Load all feeds in parallel
-      const loadPromises = feeds.value.map(async (feed) => {
+      // Show cached indexes first so revisits are instant
+      const cachedEntries = await Promise.all(feeds.value.map(feed => feedCache.get(feed.url)))
+      if (signal.aborted) return
+      feeds.value.forEach((feed, index) => {
+        const cached = cachedEntries[index]
+        if (!cached) return
+        feed.packages = cached.packages
+        feed.lastUpdated = new Date(cached.storedAt)
+        feed.fromCache = true
+        feed.isLoading = false
+        feed.isRevalidating = true
+      })
+      if (feeds.value.length > 0 && feeds.value.every(feed => feed.fromCache)) {
+        isLoading.value = false
+      }
+
+      // Revalidate all feeds in parallel
+      const loadPromises = feeds.value.map(async (feed, index) => {
+        const cached = cachedEntries[index]
         try {
-          const packages = await packageManager.fetchFeedPackages(feed.url, feed.name)
-          feed.packages = packages
-          feed.lastUpdated = new Date()
-          feed.isLoading = false
+          const result = await feedLoader.load(feed.url, feed.name, cached || undefined, {
+            signal,
+            onProgress: progress => {
+              feed.loadingStage = progress.stage
+              feed.progress = progress.total
+                ? Math.min(Math.round(progress.loaded / progress.total * 100), 100)
+                : undefined
+            }
+          })
+          if (signal.aborted) return
+          if (result.notModified && cached) {
+            await feedCache.touch(feed.url)
+            feed.lastUpdated = new Date()
+          } else if (result.packages) {
+            feed.packages = result.packages
+            feed.lastUpdated = new Date()
+            feed.fromCache = false
+            await feedCache.put({
+              url: feed.url,
+              feedName: feed.name,
+              packages: result.packages,
+              etag: result.etag,
+              lastModified: result.lastModified,
+              size: result.size
+            })
+          }
+          feed.isStale = false
         } catch (err) {
+          if (signal.aborted) return
           console.error(`Failed to load ${feed.name} feed:`, err)
-          feed.error = `加载失败: ${err instanceof Error ? err.message : '未知错误'}`
+          if (cached) {
+            // Mirror unreachable, keep working with the cached index
+            feed.isStale = true
+          } else {
+            feed.error = `加载失败: ${err instanceof Error ? err.message : '未知错误'}`
+          }
+        } finally {
           feed.isLoading = false
+          feed.isRevalidating = false
+          feed.loadingStage = undefined
+          feed.progress = undefined
         }
       })
 
       await Promise.all(loadPromises)
     } catch (err) {
-      error.value = `加载软件包列表失败: ${err instanceof Error ? err.message : '未知错误'}`
+      if (!signal.aborted) {
+        error.value = `加载软件包列表失败: ${err instanceof Error ? err.message : '未知错误'}`
+      }
     } finally {
-      isLoading.value = false
+      // A newer load owns the loading state
+      if (loadController === controller) {
+        isLoading.value = false
+        loadController = null
+      }
+    }
+  }
+
+  async function refreshCacheStats(): Promise<void> {
+    if (!feedCache.isAvailable()) return
+
+    try {
+      cacheStats.value = await feedCache.getStats()
+    } catch (err) {
+      console.warn('Failed to read feed cache stats:', err)
     }
   }
 
+  async function clearFeedCache(): Promise<void> {
+    try {
+      await feedCache.clear()
+    } catch (err) {
+      error.value = `清除软件包缓存失败: ${err instanceof Error ? err.message : '未知错误'}`
+    }
+    await refreshCacheStats()
+  }
+
   function addPackage(packageName: string): void {
     selectedPackages.value.add(packageName)
   }
@@ -206,6 +366,7 @@ export const usePackageStore = defineStore('package', () => {
   function clearAllPackages(): void {
     selectedPackages.value.clear() // Clear explicitly added packages
     removedPackages.value.clear()  // Clear explicitly removed default packages
+    migrationReport.value = null
     // Also clear loaded package data to force reload for new device
     feeds.value = []
     error.value = ''
@@ -261,6 +422,52 @@ export const usePackageStore = defineStore('package', () => {
     removedPackages.value = new Set(config.removedPackages)
   }
 
+  /**
+   * Carry a selection from another release over to the feeds loaded for the current one
+   */
+  function migrateConfiguration(fromVersion: string, fromPackages: OpenWrtPackage[], configuration: PackageConfiguration): PackageMigrationReport {
+    const report = packageMigration.migrate({
+      fromVersion,
+      toVersion: firmwareStore.currentVersion,
+      configuration,
+      fromPackages,
+      toPackages: allPackages.value,
+      toDefaultPackages: firmwareStore.selectedProfile?.default_packages || []
+    })
+
+    setPackageConfiguration(report.configuration)
+    // Only worth showing when something changed
+    const hasChanges = report.feedsUnavailable
+      || report.fromFormat !== report.toFormat
+      || report.entries.some(entry => entry.status !== 'kept')
+    migrationReport.value = hasChanges ? report : null
+    return report
+  }
+
+  /**
+   * Switch releases keeping the selected device, then migrate the package selection to the new feeds
+   */
+  async function switchVersion(version: string): Promise<void> {
+    if (!version || version === firmwareStore.currentVersion) return
+
+    const fromVersion = firmwareStore.currentVersion
+    const fromPackages = allPackages.value
+    const configuration = getPackageConfiguration()
+
+    const device = await firmwareStore.changeVersion(version)
+    if (!device || !firmwareStore.selectedProfile) {
+      clearAllPackages()
+      return
+    }
+
+    await loadPackagesForDevice(version, firmwareStore.selectedProfile.arch_packages, device.target)
+    migrateConfiguration(fromVersion, fromPackages, configuration)
+  }
+
+  function clearMigrationReport(): void {
+    migrationReport.value = null
+  }
+
   // 新增：获取用户包配置（用于导出）
   function getPackageConfiguration(): { addedPackages: string[]; removedPackages: string[] } {
     return {
@@ -270,17 +477,52 @@ export const usePackageStore = defineStore('package', () => {
   }
 
   function getPackageInfo(packageName: string): OpenWrtPackage | undefined {
-    return allPackages.value.find(pkg => pkg.name === packageName)
+    const direct = packageIndex.value.byName.get(packageName)
+    if (direct) return direct
+
+    // Virtual package: prefer a provider the user already selected
+    const providers = getProviders(packageName)
+    return providers.find(pkg => isPackageSelected(pkg.name)) || providers[0]
+  }
+
+  function getProviders(packageName: string): OpenWrtPackage[] {
+    return packageIndex.value.providers.get(packageName) || []
+  }
+
+  function isVirtualPackage(packageName: string): boolean {
+    return !packageIndex.value.byName.has(packageName) && getProviders(packageName).length > 0
   }
 
   function getDependencies(packageName: string): string[] {
-    return packageManager.getDependencyTree(packageName, allPackages.value)
+    return packageManager.getDependencyTree(packageName, packageIndex.value)
   }
 
   function getDependents(packageName: string): string[] {
     return packageManager.getDependents(packageName, allPackages.value)
   }
 
+  function explainPackage(packageName: string) {
+    const result = resolution.value
+    if (!result) return null
+
+    const resolved = result.resolved.find(pkg => pkg.name === packageName)
+    if (resolved) {
+      return { status: 'installed' as const, resolved }
+    }
+
+    const rejected = result.rejected.find(pkg => pkg.name === packageName)
+    if (rejected) {
+      return { status: 'rejected' as const, rejected }
+    }
+
+    const missing = result.missing.filter(dep => dep.name === packageName)
+    if (missing.length > 0) {
+      return { status: 'missing' as const, missing }
+    }
+
+    return null
+  }
+
   function addPackageWithDependencies(packageName: string): void {
     const dependencies = getDependencies(packageName)
     
@@ -363,6 +605,8 @@ export const usePackageStore = defineStore('package', () => {
     removedPackages,
     isLoading,
     error,
+    migrationReport,
+    cacheStats,
     searchQuery,
     selectedSection,
     selectedSource,
@@ -373,12 +617,18 @@ export const usePackageStore = defineStore('package', () => {
     packageSections,
     packageSources,
     totalPackages,
+    staleFeeds,
+    isRevalidating,
     selectedPackagesList,
     removedPackagesList,
     buildPackagesList,
+    resolution,
+    sizeEstimate,
 
     // Actions
     loadPackagesForDevice,
+    refreshCacheStats,
+    clearFeedCache,
     addPackage,
     removePackage,
     togglePackage,
@@ -394,9 +644,15 @@ export const usePackageStore = defineStore('package', () => {
     setSelectedPackages,
     setPackageConfiguration,
     getPackageConfiguration,
+    migrateConfiguration,
+    switchVersion,
+    clearMigrationReport,
     getPackageInfo,
+    getProviders,
+    isVirtualPackage,
     getDependencies,
     getDependents,
+    explainPackage,
     addPackageWithDependencies,
     removePackageWithDependents,
     getSelectedPackagesInfo,
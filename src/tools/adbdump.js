@@ -59,6 +59,7 @@ function hexOf(u8) { return [...u8].map(b => b.toString(16).padStart(2,'0')).joi
 function toSafeNumber(v) { return (typeof v === 'bigint' && v > BigInt(Number.MAX_SAFE_INTEGER)) ? v.toString() : Number(v); }
 
 function isDebug() {
+  if (typeof document === 'undefined') return false; // Web Worker
   const el = document.getElementById('debug');
   return !!(el && el.checked);
 }
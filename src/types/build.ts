@@ -0,0 +1,78 @@
+// Build history types for ASU builds
+
+import type { AsuBuildRequest, AsuBuildResponse } from '@/services/asu'
+
+export type BuildState = AsuBuildResponse['status']
+
+export interface BuildTransition {
+  status: BuildState
+  at: string // ISO timestamp
+  detail?: string
+}
+
+// One imagebuilder_status/detail change reported by ASU
+export interface BuildStep {
+  status: string // Normalized imagebuilder_status
+  detail?: string
+  at: string // ISO timestamp
+}
+
+export interface BuildImage {
+  name: string
+  sha256: string
+  type: string
+}
+
+export interface BuildRecord {
+  id: string
+  request: AsuBuildRequest
+  requestHash?: string
+  status: BuildState
+  transitions: BuildTransition[]
+  steps?: BuildStep[]
+
+  // Device display info, the request only carries ids
+  deviceTitle: string
+
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+
+  // Latest server response
+  httpStatus?: number
+  detail?: string
+  queuePosition?: number
+  imagebuilderStatus?: string
+  stdout?: string
+  stderr?: string
+  images?: BuildImage[]
+  binDir?: string
+  buildCmd?: string[]
+
+  progress?: number // 0-100 from imagebuilder_status
+  etaSeconds?: number // Estimated queue wait
+
+  // Polling stopped because the server could not be reached
+  pollError?: string
+}
+
+// Request fields shared by every device of a batch build
+export type SharedBuildOptions = Omit<AsuBuildRequest, 'target' | 'profile' | 'packages' | 'version'>
+
+export interface BatchPackageSelection {
+  added: string[] // Packages added on top of each device's defaults
+  removed: string[] // Default packages to remove where the device has them
+}
+
+export type BatchJobStatus = 'pending' | 'preparing' | 'submitted' | 'error' | 'cancelled'
+
+export interface BatchJob {
+  deviceTitle: string
+  deviceId: string
+  target: string
+  status: BatchJobStatus
+  buildId?: string // Build history record once submitted
+  droppedPackages: string[] // Not provided by this target's feeds
+  indexUnavailable?: boolean // Feeds could not be loaded, packages were sent unfiltered
+  error?: string
+}
@@ -1,5 +1,7 @@
 // User configuration types for import/export
 
+import type { ModuleSourceKind } from '@/services/moduleSources'
+
 export interface SavedConfiguration {
   // Metadata
   id: string
@@ -38,6 +40,7 @@ export interface SavedConfiguration {
       id: string
       name: string
       url: string
+      provider?: ModuleSourceKind
       ref: string
     }>
     selections: Array<{
@@ -0,0 +1,40 @@
+// Message protocol between the package store and the feed parser worker
+
+import type { FeedFetchResult, FeedProgress, FeedValidators } from '@/services/packageManager'
+
+export interface FeedLoadRequest {
+  type: 'load'
+  id: number
+  feedUrl: string
+  feedName: string
+  cached?: FeedValidators
+  mirrorUrls: string[]
+}
+
+export interface FeedCancelRequest {
+  type: 'cancel'
+  id: number
+}
+
+export type FeedWorkerRequest = FeedLoadRequest | FeedCancelRequest
+
+export interface FeedProgressMessage {
+  type: 'progress'
+  id: number
+  progress: FeedProgress
+}
+
+export interface FeedResultMessage {
+  type: 'result'
+  id: number
+  result: FeedFetchResult
+}
+
+export interface FeedErrorMessage {
+  type: 'error'
+  id: number
+  message: string
+  aborted: boolean
+}
+
+export type FeedWorkerResponse = FeedProgressMessage | FeedResultMessage | FeedErrorMessage
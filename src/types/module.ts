@@ -1,12 +1,44 @@
 // Module type definitions based on asu-advance spec.md
 
+import type { ModuleSourceKind } from '@/services/moduleSources'
+
+// Text in one language, or keyed by language code ("en", "zh_CN", "pt-BR")
+export type LocalizedText = string | { [lang: string]: string }
+
+// Widget and validation of a parameter; values are always substituted as strings
+export type ModuleParameterType =
+  | 'string'
+  | 'text' // Multi-line
+  | 'password' // Masked, left out of share links
+  | 'boolean' // "1" or "0"
+  | 'integer'
+  | 'enum'
+  | 'ipv4'
+  | 'ipv6'
+  | 'cidr' // IPv4 or IPv6 network with prefix length
+  | 'mac'
+  | 'list' // Values joined by `separator`
+
+export interface ModuleParameterOption {
+  value: string
+  label?: LocalizedText
+}
+
 export interface ModuleParameter {
   name: string
   required: boolean
   default?: string
-  description: string
+  description: LocalizedText
+  type?: ModuleParameterType  // string when missing
+  options?: Array<string | ModuleParameterOption>  // enum choices, suggestions for list
+  min?: number  // integer range
+  max?: number
+  min_length?: number  // string, text and password length
+  max_length?: number
+  separator?: string  // list separator, a space when missing
   validation?: {
     pattern: string
+    message?: LocalizedText  // Shown instead of the generic messages
   }
 }
 
@@ -59,6 +91,12 @@ export interface ModuleDefinition {
   downloads?: ModuleDownload[]
   packages?: string[]
   parameterized_files?: ParameterizedFile[]
+  requires?: string[]  // Module ids ("<source id>:<module id>" for another source), selected along
+  conflicts?: string[]  // Module ids that cannot be selected together with this one
+  targets?: string[]  // target or target/subtarget, "*" as wildcard
+  min_version?: string  // OpenWrt release range, inclusive
+  max_version?: string
+  arch?: string[]  // Package architectures (arch_packages), "*" as wildcard
 }
 
 export interface ModuleFile {
@@ -79,9 +117,13 @@ export interface ModuleSource {
   id: string
   name: string
   url: string
+  provider?: ModuleSourceKind  // Detected from the URL when missing (older saved configurations)
   ref: string  // branch, tag, or commit
+  revision?: string  // Commit SHA the ref resolved to (ETag for archives, content hash without one)
   modules: Module[]
   lastUpdated?: Date
+  lastChecked?: Date  // Last time the ref was compared with the remote
+  fromCache?: boolean  // Modules come from the local cache, the remote was not reachable
 }
 
 export interface ModuleSelection {
@@ -1,9 +1,25 @@
 // OpenWrt package types
 
+// Version operators used by opkg ("(>= 1.0)", "(<< 1.0)") and apk ("foo>=1.0", "foo~1.0"),
+// normalized to a single set
+export type VersionOperator = '=' | '<' | '<=' | '>' | '>=' | '~'
+
+export interface PackageConstraint {
+  name: string
+  operator?: VersionOperator
+  version?: string
+}
+
 export interface OpenWrtPackage {
   name: string // Package name
   version: string
   depends?: string[] // Dependencies (parsed from comma-separated string)
+  dependencies?: PackageConstraint[] // Dependencies including version constraints
+  conflicts?: PackageConstraint[] // Conflicts (opkg "Conflicts:" or apk "!pkg")
+  provides?: PackageConstraint[] // Virtual names this package provides
+  replaces?: PackageConstraint[] // Packages this one replaces
+  installIf?: PackageConstraint[] // apk install_if: installed automatically when all of these are installed
+  providerPriority?: number // apk provider priority, used to pick between providers
   license?: string
   section: string // Category like 'net', 'utils', 'kernel', etc.
   url?: string // Homepage URL
@@ -23,7 +39,12 @@ export interface PackageFeed {
   packages: OpenWrtPackage[]
   lastUpdated?: Date
   isLoading: boolean
+  loadingStage?: 'download' | 'parse'
+  progress?: number // Download progress 0-100, undefined when the size is unknown
   error?: string
+  fromCache?: boolean // Packages come from the offline cache
+  isRevalidating?: boolean // Cached packages shown while checking the mirror for updates
+  isStale?: boolean // Mirror unreachable, cached packages may be outdated
 }
 
 export interface PackageSearchFilter {
@@ -41,4 +62,4 @@ export interface PackageInstallInfo {
   dependents: string[] // Packages that depend on this one
   size: number
   installedSize: number
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+// Fetches, decompresses and parses package feed indexes off the main thread
+
+import { packageManager, type FeedValidators } from '@/services/packageManager'
+import type { FeedWorkerRequest, FeedWorkerResponse } from '@/types/feedWorker'
+
+const controllers = new Map<number, AbortController>()
+
+function post(message: FeedWorkerResponse) {
+  self.postMessage(message)
+}
+
+async function load(id: number, feedUrl: string, feedName: string, mirrorUrls: string[], cached?: FeedValidators) {
+  const controller = new AbortController()
+  controllers.set(id, controller)
+
+  try {
+    const result = await packageManager.fetchFeed(feedUrl, feedName, cached, {
+      signal: controller.signal,
+      mirrorUrls,
+      onProgress: progress => post({ type: 'progress', id, progress })
+    })
+    if (!controller.signal.aborted) {
+      post({ type: 'result', id, result })
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error),
+      aborted: controller.signal.aborted
+    })
+  } finally {
+    controllers.delete(id)
+  }
+}
+
+self.onmessage = (event: MessageEvent<FeedWorkerRequest>) => {
+  const request = event.data
+  switch (request.type) {
+    case 'load':
+      load(request.id, request.feedUrl, request.feedName, request.mirrorUrls, request.cached)
+      break
+    case 'cancel':
+      controllers.get(request.id)?.abort()
+      break
+  }
+}